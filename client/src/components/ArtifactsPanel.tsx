@@ -0,0 +1,163 @@
+import type { CompiledContract } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Download, FileJson } from "lucide-react";
+import { downloadJson } from "@/lib/download";
+
+interface ArtifactsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contract: CompiledContract;
+  asts?: Record<string, any>; // Source unit name -> AST
+}
+
+function JsonBlock({ value, testId }: { value: unknown; testId: string }) {
+  if (value === undefined || value === null) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">Not available for this contract</p>;
+  }
+
+  return (
+    <pre className="whitespace-pre-wrap break-all rounded-md bg-muted p-3 font-mono text-xs" data-testid={testId}>
+      {JSON.stringify(value, null, 2)}
+    </pre>
+  );
+}
+
+export function ArtifactsPanel({ open, onOpenChange, contract, asts }: ArtifactsPanelProps) {
+  const artifacts = contract.artifacts ?? {};
+  const storage = artifacts.storageLayout?.storage ?? [];
+  const methodIdentifiers = Object.entries(artifacts.methodIdentifiers ?? {});
+  const ast = asts?.[contract.sourceName];
+
+  // Everything auditors ask for in one file, in solc's own output shapes
+  const handleDownload = () => {
+    const bundle = {
+      contractName: contract.contractName,
+      sourceName: contract.sourceName,
+      abi: contract.abi,
+      bytecode: contract.bytecode,
+      ...artifacts,
+      ast,
+    };
+    downloadJson(`${contract.contractName}.artifacts.json`, bundle);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-2xl flex flex-col" data-testid="sheet-artifacts">
+        <SheetHeader>
+          <div className="flex items-center justify-between">
+            <SheetTitle className="flex items-center gap-2">
+              <FileJson className="h-5 w-5" />
+              Artifacts
+            </SheetTitle>
+            <Button variant="outline" size="sm" onClick={handleDownload} data-testid="button-download-artifacts">
+              <Download className="h-4 w-4 mr-1" />
+              Download JSON
+            </Button>
+          </div>
+          <SheetDescription>
+            Compiler output for {contract.contractName} ({contract.sourceName})
+          </SheetDescription>
+        </SheetHeader>
+
+        <Tabs defaultValue="storage" className="flex-1 flex flex-col overflow-hidden mt-4">
+          <TabsList className="grid grid-cols-6">
+            <TabsTrigger value="storage" data-testid="tab-artifacts-storage">Storage</TabsTrigger>
+            <TabsTrigger value="gas" data-testid="tab-artifacts-gas">Gas</TabsTrigger>
+            <TabsTrigger value="methods" data-testid="tab-artifacts-methods">Methods</TabsTrigger>
+            <TabsTrigger value="bytecode" data-testid="tab-artifacts-bytecode">Bytecode</TabsTrigger>
+            <TabsTrigger value="natspec" data-testid="tab-artifacts-natspec">NatSpec</TabsTrigger>
+            <TabsTrigger value="ast" data-testid="tab-artifacts-ast">AST</TabsTrigger>
+          </TabsList>
+
+          <ScrollArea className="flex-1 mt-4">
+            <TabsContent value="storage" className="m-0">
+              {storage.length === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">No storage variables</p>
+              ) : (
+                <table className="w-full text-xs" data-testid="table-storage-layout">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 pr-2 font-medium">Slot</th>
+                      <th className="py-2 pr-2 font-medium">Offset</th>
+                      <th className="py-2 pr-2 font-medium">Name</th>
+                      <th className="py-2 font-medium">Type</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {storage.map((entry) => (
+                      <tr key={entry.astId} className="border-b">
+                        <td className="py-1.5 pr-2 font-mono">{entry.slot}</td>
+                        <td className="py-1.5 pr-2 font-mono">{entry.offset}</td>
+                        <td className="py-1.5 pr-2 font-mono">{entry.label}</td>
+                        <td className="py-1.5 font-mono text-muted-foreground">
+                          {artifacts.storageLayout?.types?.[entry.type]?.label ?? entry.type}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </TabsContent>
+
+            <TabsContent value="gas" className="m-0">
+              <JsonBlock value={artifacts.gasEstimates} testId="text-gas-estimates" />
+            </TabsContent>
+
+            <TabsContent value="methods" className="m-0">
+              {methodIdentifiers.length === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">No external functions</p>
+              ) : (
+                <table className="w-full text-xs" data-testid="table-method-identifiers">
+                  <tbody>
+                    {methodIdentifiers.map(([signature, selector]) => (
+                      <tr key={signature} className="border-b">
+                        <td className="py-1.5 pr-2 font-mono">0x{selector}</td>
+                        <td className="py-1.5 font-mono">{signature}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </TabsContent>
+
+            <TabsContent value="bytecode" className="m-0 space-y-4">
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Deployed Bytecode</h3>
+                <JsonBlock value={artifacts.deployedBytecode} testId="text-deployed-bytecode" />
+              </div>
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Immutable References</h3>
+                <JsonBlock value={artifacts.immutableReferences} testId="text-immutable-references" />
+              </div>
+            </TabsContent>
+
+            <TabsContent value="natspec" className="m-0 space-y-4">
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Developer Documentation</h3>
+                <JsonBlock value={artifacts.devdoc} testId="text-devdoc" />
+              </div>
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">User Documentation</h3>
+                <JsonBlock value={artifacts.userdoc} testId="text-userdoc" />
+              </div>
+            </TabsContent>
+
+            <TabsContent value="ast" className="m-0">
+              <JsonBlock value={ast} testId="text-ast" />
+            </TabsContent>
+          </ScrollArea>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useCallback, useEffect, useRef } from "react";
-import Editor from "@monaco-editor/react";
+import Editor, { type OnMount } from "@monaco-editor/react";
 import { Upload, FileCode, Trash2, ChevronDown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardContent, CardFooter } from "@/components/ui/card";
@@ -22,7 +22,9 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { WorkspaceFile } from "@shared/schema";
+import type { CompilerDiagnostic, WorkspaceFile } from "@shared/schema";
+import { applyDiagnosticMarkers } from "@/lib/diagnostics";
+import { ProblemsPanel } from "./ProblemsPanel";
 import { FileExplorer } from "./FileExplorer";
 import { FileTabs } from "./FileTabs";
 import { WorkspaceSelector } from "./WorkspaceSelector";
@@ -36,6 +38,7 @@ interface CodeEditorProps {
   workspaceId?: number | null;
   onWorkspaceChange?: (workspaceId: number) => void;
   showFileExplorer?: boolean;
+  diagnostics?: CompilerDiagnostic[]; // Diagnostics for the code shown in the editor
 }
 
 const EXAMPLE_CONTRACTS = {
@@ -188,9 +191,13 @@ export function CodeEditor({
   workspaceId,
   onWorkspaceChange,
   showFileExplorer = true,
+  diagnostics = [],
 }: CodeEditorProps) {
   const { toast } = useToast();
   const [charCount, setCharCount] = useState(code.length);
+  const editorRef = useRef<Parameters<OnMount>[0] | null>(null);
+  const monacoRef = useRef<Parameters<OnMount>[1] | null>(null);
+  const [editorReady, setEditorReady] = useState(false);
   const [openFiles, setOpenFiles] = useState<WorkspaceFile[]>([]);
   const [activeFile, setActiveFile] = useState<WorkspaceFile | null>(null);
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -242,6 +249,27 @@ export function CodeEditor({
     },
   });
 
+  // Render compiler diagnostics as Monaco markers
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    if (!editorReady || !monacoRef.current || !model) return;
+    applyDiagnosticMarkers(monacoRef.current, model, diagnostics);
+  }, [diagnostics, editorReady]);
+
+  const handleEditorMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+    setEditorReady(true);
+  };
+
+  const handleSelectDiagnostic = (diagnostic: CompilerDiagnostic) => {
+    if (diagnostic.startLine !== undefined && editorRef.current) {
+      editorRef.current.revealLineInCenter(diagnostic.startLine);
+      editorRef.current.setPosition({ lineNumber: diagnostic.startLine, column: diagnostic.startColumn ?? 1 });
+      editorRef.current.focus();
+    }
+  };
+
   // Auto-detect Solidity version from pragma when code changes
   useEffect(() => {
     const detectedVersion = detectVersionFromPragma(code);
@@ -528,6 +556,7 @@ export function CodeEditor({
               defaultLanguage="sol"
               value={code}
               onChange={handleEditorChange}
+              onMount={handleEditorMount}
               theme="vs-dark"
               options={{
                 minimap: { enabled: false },
@@ -540,6 +569,8 @@ export function CodeEditor({
               }}
             />
           </div>
+
+          <ProblemsPanel diagnostics={diagnostics} onSelectDiagnostic={handleSelectDiagnostic} />
         </div>
       </CardContent>
 
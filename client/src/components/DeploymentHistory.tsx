@@ -1,12 +1,20 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Deployment } from "@shared/schema";
+import type { BulkVerifyOutcome, BulkVerifyRequest, BulkVerifyResponse, BytecodeMatchResult, Deployment, Release } from "@shared/schema";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   Select,
   SelectContent,
@@ -24,14 +32,16 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { ExternalLink, Trash2, Edit2, Check, X, FileCode, Play, ShieldCheck, AlertCircle, Clock, History, Layers } from "lucide-react";
+import { ExternalLink, Trash2, Edit2, Check, X, FileCode, Play, ShieldCheck, AlertCircle, Clock, History, Layers, FileJson, Link2, Binary } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
 import { format } from "date-fns";
+import { formatUnits } from "ethers";
 import { NETWORKS } from "@shared/schema";
 import { ContractInteraction } from "./ContractInteraction";
 import { WorkspaceSelector } from "./WorkspaceSelector";
 import { VersionHistory } from "./VersionHistory";
+import { downloadJson, downloadText } from "@/lib/download";
 
 interface DeploymentHistoryProps {
   walletAddress?: string;
@@ -39,7 +49,10 @@ interface DeploymentHistoryProps {
   onWorkspaceChange?: (workspaceId: number | null) => void;
   currentSourceCode?: string;
   currentSolcVersion?: string;
+  currentCompilationHash?: string;
+  currentOpenzeppelinVersion?: string;
   onRestoreVersion?: (sourceCode: string) => void;
+  onResumeRelease?: (release: Release) => void; // Reopen a release to deploy to the networks it hasn't reached
 }
 
 export function DeploymentHistory({ 
@@ -48,7 +61,10 @@ export function DeploymentHistory({
   onWorkspaceChange, 
   currentSourceCode,
   currentSolcVersion,
-  onRestoreVersion 
+  currentCompilationHash,
+  currentOpenzeppelinVersion,
+  onRestoreVersion,
+  onResumeRelease
 }: DeploymentHistoryProps) {
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editedNotes, setEditedNotes] = useState("");
@@ -57,8 +73,11 @@ export function DeploymentHistory({
   const [searchQuery, setSearchQuery] = useState("");
   const [filterNetwork, setFilterNetwork] = useState<string | null>(null);
   const [filterStatus, setFilterStatus] = useState<string | null>(null);
+  const [filterRelease, setFilterRelease] = useState<number | null>(null);
   const [filterDateRange, setFilterDateRange] = useState<{ start: Date | null; end: Date | null }>({ start: null, end: null });
   const [showAssociateDialog, setShowAssociateDialog] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [bulkResults, setBulkResults] = useState<BulkVerifyOutcome[] | null>(null);
   const { toast } = useToast();
 
   const { data: deployments, isLoading } = useQuery<Deployment[]>({
@@ -66,6 +85,17 @@ export function DeploymentHistory({
       ? ["/api/workspaces", selectedWorkspace, "deployments"]
       : ["/api/deployments"],
     enabled: !!walletAddress,
+    // The server follows deployment transactions and polls pending verifications in the background; pick up its results
+    refetchInterval: (query) =>
+      query.state.data?.some((d) => d.status === 'pending' || d.status === 'mined' || d.verificationStatus === 'pending' || d.proxyLinkStatus === 'waiting' || d.proxyLinkStatus === 'pending')
+        ? 30 * 1000
+        : false,
+  });
+
+  // Multi-network releases, to group the deployments made as part of one
+  const { data: releases = [] } = useQuery<Release[]>({
+    queryKey: ["/api/releases"],
+    enabled: !!walletAddress,
   });
 
   // Query all deployments (not filtered by workspace) to compute unassociated count
@@ -147,6 +177,33 @@ export function DeploymentHistory({
     },
   });
 
+  const bulkVerifyMutation = useMutation({
+    mutationFn: async (request: BulkVerifyRequest) => {
+      const response = await apiRequest("POST", "/api/deployments/bulk-verify", request);
+      return response.json() as Promise<BulkVerifyResponse>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/deployments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      setSelectedIds(new Set());
+      if (data.results.length === 0) {
+        toast({
+          title: "All Set",
+          description: "There are no unverified deployments to verify.",
+        });
+        return;
+      }
+      setBulkResults(data.results);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Bulk Verification Error",
+        description: error.message,
+      });
+    },
+  });
+
   const associateAllMutation = useMutation({
     mutationFn: async () => {
       if (!selectedWorkspace) {
@@ -227,6 +284,29 @@ export function DeploymentHistory({
     },
   });
 
+  const bytecodeMatchMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/deployments/${id}/bytecode-match`, {});
+      return response.json() as Promise<{ result: BytecodeMatchResult; message: string }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/deployments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      toast({
+        variant: data.result === 'mismatch' ? "destructive" : "default",
+        title: data.result === 'exact' ? "Bytecode Matches" : data.result === 'metadata' ? "Bytecode Matches (Metadata Differs)" : "Bytecode Mismatch",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Bytecode Check Error",
+        description: error.message,
+      });
+    },
+  });
+
   const handleEdit = (deployment: Deployment) => {
     setEditingId(deployment.id);
     setEditedNotes(deployment.notes || "");
@@ -255,6 +335,32 @@ export function DeploymentHistory({
     checkVerificationMutation.mutate(id);
   };
 
+  const handleExportFlattened = async (deployment: Deployment) => {
+    try {
+      const response = await apiRequest("GET", `/api/deployments/${deployment.id}/flattened`);
+      downloadText(`${deployment.contractName}.flattened.sol`, await response.text());
+    } catch (error: any) {
+      toast({
+        title: "Export failed",
+        description: error.message || "Failed to export flattened source",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExportStandardJson = async (deployment: Deployment) => {
+    try {
+      const response = await apiRequest("GET", `/api/deployments/${deployment.id}/standard-json`);
+      downloadJson(`${deployment.contractName}.standard-input.json`, await response.json());
+    } catch (error: any) {
+      toast({
+        title: "Export failed",
+        description: error.message || "Failed to export standard JSON input",
+        variant: "destructive",
+      });
+    }
+  };
+
   const getNetworkInfo = (networkId: string) => {
     return NETWORKS.find(n => n.id === networkId);
   };
@@ -271,6 +377,10 @@ export function DeploymentHistory({
       return false;
     }
 
+    if (filterRelease && deployment.releaseId !== filterRelease) {
+      return false;
+    }
+
     if (filterStatus) {
       if (filterStatus === 'verified' && !deployment.verified) return false;
       if (filterStatus === 'pending' && deployment.verificationStatus !== 'pending') return false;
@@ -296,6 +406,32 @@ export function DeploymentHistory({
 
   const uniqueNetworks = Array.from(new Set(deployments?.map(d => d.network) || []));
 
+  // Explorers and the RPC only know the contract once its deployment transaction is mined
+  const isOnChain = (deployment: Deployment) => deployment.status === 'mined' || deployment.status === 'confirmed';
+  const isVerifiable = (deployment: Deployment) =>
+    !deployment.verified && deployment.verificationStatus !== 'pending' && isOnChain(deployment) && !!getNetworkInfo(deployment.network);
+  const verifiableDeployments = filteredDeployments.filter(isVerifiable);
+  const allVerifiableSelected = verifiableDeployments.length > 0 && verifiableDeployments.every(d => selectedIds.has(d.id));
+
+  const toggleSelected = (id: number, selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (selected) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllVerifiable = (selected: boolean) => {
+    setSelectedIds(selected ? new Set(verifiableDeployments.map(d => d.id)) : new Set());
+  };
+
+  // Only submit selections that are still visible and still need verifying
+  const selectedVerifiableIds = verifiableDeployments.filter(d => selectedIds.has(d.id)).map(d => d.id);
+
   const exportToJSON = () => {
     const dataStr = JSON.stringify(filteredDeployments, null, 2);
     const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
@@ -414,6 +550,32 @@ export function DeploymentHistory({
                 <SelectItem value="unverified">Unverified</SelectItem>
               </SelectContent>
             </Select>
+            {releases.length > 0 && (
+              <Select value={filterRelease ? String(filterRelease) : "all"} onValueChange={(v) => setFilterRelease(v === "all" ? null : parseInt(v))}>
+                <SelectTrigger className="w-[180px]" data-testid="select-filter-release">
+                  <SelectValue placeholder="All Releases" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Releases</SelectItem>
+                  {releases.map((release) => (
+                    <SelectItem key={release.id} value={String(release.id)}>
+                      {release.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {onResumeRelease && filterRelease && releases.some((r) => r.id === filterRelease) && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onResumeRelease(releases.find((r) => r.id === filterRelease)!)}
+                data-testid="button-reopen-release"
+              >
+                <Layers className="w-4 h-4 mr-2" />
+                Reopen Release
+              </Button>
+            )}
             <div className="flex gap-2">
               <Input
                 type="date"
@@ -452,6 +614,42 @@ export function DeploymentHistory({
               </Button>
             </div>
           </div>
+          {verifiableDeployments.length > 0 && (
+            <div className="flex items-center gap-2 flex-wrap">
+              <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+                <Checkbox
+                  checked={allVerifiableSelected}
+                  onCheckedChange={(checked) => toggleAllVerifiable(checked === true)}
+                  data-testid="checkbox-select-all-unverified"
+                />
+                Select all unverified ({verifiableDeployments.length})
+              </label>
+              <div className="flex gap-2 ml-auto">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => bulkVerifyMutation.mutate({ deploymentIds: selectedVerifiableIds })}
+                  disabled={selectedVerifiableIds.length === 0 || bulkVerifyMutation.isPending}
+                  data-testid="button-verify-selected"
+                >
+                  <ShieldCheck className="w-4 h-4 mr-2" />
+                  {bulkVerifyMutation.isPending ? "Submitting..." : `Verify Selected (${selectedVerifiableIds.length})`}
+                </Button>
+                {selectedWorkspace && (
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => bulkVerifyMutation.mutate({ workspaceId: selectedWorkspace })}
+                    disabled={bulkVerifyMutation.isPending}
+                    data-testid="button-verify-workspace"
+                  >
+                    <ShieldCheck className="w-4 h-4 mr-2" />
+                    Verify All in Workspace
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
         </div>
       </CardHeader>
       <CardContent className="flex-1 overflow-hidden p-0">
@@ -476,6 +674,14 @@ export function DeploymentHistory({
                       <div className="flex items-start justify-between gap-2">
                         <div className="flex-1 min-w-0">
                           <CardTitle className="text-base flex items-center gap-2">
+                            {isVerifiable(deployment) && (
+                              <Checkbox
+                                checked={selectedIds.has(deployment.id)}
+                                onCheckedChange={(checked) => toggleSelected(deployment.id, checked === true)}
+                                aria-label={`Select ${deployment.contractName} for verification`}
+                                data-testid={`checkbox-select-${deployment.id}`}
+                              />
+                            )}
                             <FileCode className="w-4 h-4 flex-shrink-0" />
                             <span className="truncate" data-testid={`text-contract-name-${deployment.id}`}>
                               {deployment.contractName}
@@ -533,12 +739,89 @@ export function DeploymentHistory({
                         </div>
                       </div>
 
+                      {deployment.blockNumber !== null && (
+                        <div>
+                          <div className="text-xs text-muted-foreground mb-1">Block</div>
+                          <div className="text-xs" data-testid={`text-block-${deployment.id}`}>
+                            #{deployment.blockNumber.toLocaleString()}
+                            {deployment.gasUsed && ` · ${Number(deployment.gasUsed).toLocaleString()} gas`}
+                            {deployment.effectiveGasPrice && ` at ${formatUnits(deployment.effectiveGasPrice, "gwei")} gwei`}
+                          </div>
+                        </div>
+                      )}
+
+                      {deployment.implementationAddress && (
+                        <div>
+                          <div className="text-xs text-muted-foreground mb-1">
+                            Implementation ({deployment.proxyType === 'transparent' ? 'Transparent' : deployment.proxyType === 'beacon' ? 'Beacon' : 'UUPS'} proxy)
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <code className="flex-1 truncate text-xs bg-muted px-2 py-1 rounded" data-testid={`text-implementation-${deployment.id}`}>
+                              {deployment.implementationAddress}
+                            </code>
+                            {deployment.proxyLinkStatus === 'linked' && (
+                              <Badge variant="default" data-testid={`badge-proxy-linked-${deployment.id}`}>
+                                <Link2 className="w-3 h-3 mr-1" />
+                                Linked
+                              </Badge>
+                            )}
+                            {(deployment.proxyLinkStatus === 'waiting' || deployment.proxyLinkStatus === 'pending') && (
+                              <Badge variant="secondary" data-testid={`badge-proxy-pending-${deployment.id}`}>
+                                <Clock className="w-3 h-3 mr-1" />
+                                Linking
+                              </Badge>
+                            )}
+                            {deployment.proxyLinkStatus === 'failed' && (
+                              <Badge variant="destructive" data-testid={`badge-proxy-failed-${deployment.id}`}>
+                                <AlertCircle className="w-3 h-3 mr-1" />
+                                Link Failed
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+                      )}
+
                       <div>
                         <div className="text-xs text-muted-foreground mb-1">Network</div>
                         <div className="flex items-center gap-2 flex-wrap">
                           <Badge variant="secondary" data-testid={`badge-network-${deployment.id}`}>
                             {network?.name || deployment.network}
                           </Badge>
+                          {deployment.releaseId && (
+                            <Badge variant="outline" data-testid={`badge-release-${deployment.id}`}>
+                              <Layers className="w-3 h-3 mr-1" />
+                              {releases.find((r) => r.id === deployment.releaseId)?.name ?? "Release"}
+                            </Badge>
+                          )}
+                          {deployment.create2Salt && (
+                            <Badge variant="outline" title={`Salt ${deployment.create2Salt} via factory ${deployment.create2Factory}`} data-testid={`badge-create2-${deployment.id}`}>
+                              CREATE2
+                            </Badge>
+                          )}
+                          {deployment.status === 'pending' && (
+                            <Badge variant="secondary" data-testid={`badge-tx-pending-${deployment.id}`}>
+                              <Clock className="w-3 h-3 mr-1" />
+                              Awaiting Confirmation
+                            </Badge>
+                          )}
+                          {deployment.status === 'mined' && (
+                            <Badge variant="secondary" data-testid={`badge-tx-mined-${deployment.id}`}>
+                              <Clock className="w-3 h-3 mr-1" />
+                              Confirming ({deployment.confirmations})
+                            </Badge>
+                          )}
+                          {deployment.status === 'failed' && (
+                            <Badge variant="destructive" data-testid={`badge-tx-failed-${deployment.id}`}>
+                              <AlertCircle className="w-3 h-3 mr-1" />
+                              Transaction Reverted
+                            </Badge>
+                          )}
+                          {deployment.status === 'dropped' && (
+                            <Badge variant="destructive" data-testid={`badge-tx-dropped-${deployment.id}`}>
+                              <AlertCircle className="w-3 h-3 mr-1" />
+                              Transaction Dropped
+                            </Badge>
+                          )}
                           {deployment.verified && (
                             <Badge variant="default" data-testid={`badge-verified-${deployment.id}`}>
                               <ShieldCheck className="w-3 h-3 mr-1" />
@@ -557,12 +840,30 @@ export function DeploymentHistory({
                               Failed
                             </Badge>
                           )}
+                          {deployment.bytecodeMatch === 'exact' && (
+                            <Badge variant="default" data-testid={`badge-bytecode-match-${deployment.id}`}>
+                              <Binary className="w-3 h-3 mr-1" />
+                              Bytecode Match
+                            </Badge>
+                          )}
+                          {deployment.bytecodeMatch === 'metadata' && (
+                            <Badge variant="secondary" data-testid={`badge-bytecode-match-${deployment.id}`}>
+                              <Binary className="w-3 h-3 mr-1" />
+                              Bytecode Match (metadata differs)
+                            </Badge>
+                          )}
+                          {deployment.bytecodeMatch === 'mismatch' && (
+                            <Badge variant="destructive" data-testid={`badge-bytecode-mismatch-${deployment.id}`}>
+                              <Binary className="w-3 h-3 mr-1" />
+                              Bytecode Mismatch
+                            </Badge>
+                          )}
                         </div>
                       </div>
 
                       <Separator />
 
-                      <div className="flex gap-2">
+                      <div className="flex flex-wrap gap-2">
                         {!deployment.verified && deployment.verificationStatus === 'pending' && (
                           <Button
                             variant="outline"
@@ -576,7 +877,7 @@ export function DeploymentHistory({
                             {checkVerificationMutation.isPending ? "Checking..." : "Check Status"}
                           </Button>
                         )}
-                        {!deployment.verified && deployment.verificationStatus !== 'pending' && network?.blockExplorerApiUrl && (
+                        {!deployment.verified && deployment.verificationStatus !== 'pending' && isOnChain(deployment) && network && (
                           <Button
                             variant="outline"
                             size="sm"
@@ -589,6 +890,19 @@ export function DeploymentHistory({
                             {verifyMutation.isPending ? "Submitting..." : "Verify Contract"}
                           </Button>
                         )}
+                        {isOnChain(deployment) && network && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex-1"
+                            onClick={() => bytecodeMatchMutation.mutate(deployment.id)}
+                            disabled={bytecodeMatchMutation.isPending}
+                            data-testid={`button-bytecode-match-${deployment.id}`}
+                          >
+                            <Binary className="w-3 h-3 mr-1" />
+                            {bytecodeMatchMutation.isPending ? "Comparing..." : "Match Bytecode"}
+                          </Button>
+                        )}
                         <Button
                           variant="default"
                           size="sm"
@@ -609,6 +923,28 @@ export function DeploymentHistory({
                           <History className="w-3 h-3 mr-1" />
                           Versions
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="flex-1"
+                          onClick={() => handleExportStandardJson(deployment)}
+                          data-testid={`button-export-standard-json-${deployment.id}`}
+                        >
+                          <FileJson className="w-3 h-3 mr-1" />
+                          Standard JSON
+                        </Button>
+                        {deployment.language !== "Vyper" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex-1"
+                            onClick={() => handleExportFlattened(deployment)}
+                            data-testid={`button-export-flattened-${deployment.id}`}
+                          >
+                            <FileCode className="w-3 h-3 mr-1" />
+                            Flattened
+                          </Button>
+                        )}
                       </div>
 
                       <Separator />
@@ -678,6 +1014,8 @@ export function DeploymentHistory({
         deploymentId={versionHistoryDeployment?.id || 0}
         currentSourceCode={currentSourceCode}
         currentSolcVersion={currentSolcVersion}
+        currentCompilationHash={currentCompilationHash}
+        currentOpenzeppelinVersion={currentOpenzeppelinVersion}
         onRestore={(sourceCode) => {
           if (onRestoreVersion) {
             onRestoreVersion(sourceCode);
@@ -686,6 +1024,57 @@ export function DeploymentHistory({
         }}
       />
 
+      <Dialog open={!!bulkResults} onOpenChange={(open) => !open && setBulkResults(null)}>
+        <DialogContent data-testid="dialog-bulk-verify-results">
+          <DialogHeader>
+            <DialogTitle>Bulk Verification</DialogTitle>
+            <DialogDescription>
+              {bulkResults?.filter(r => r.status === 'pending').length ?? 0} of {bulkResults?.length ?? 0} deployment{bulkResults?.length !== 1 ? 's' : ''} queued.
+              Queued verifications are submitted in the background and update here as they progress.
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-[60vh]">
+            <div className="space-y-2 pr-4">
+              {bulkResults?.map((result) => {
+                // Queued deployments move on in the background; follow them through the polled deployment list
+                const deployment = result.status === 'pending' ? deployments?.find(d => d.id === result.deploymentId) : undefined;
+                const status = deployment?.verified ? 'verified' : deployment?.verificationStatus === 'failed' ? 'failed' : result.status;
+                const message = deployment?.verified
+                  ? "Contract verified"
+                  : deployment?.verificationStatus === 'failed'
+                    ? "Verification failed"
+                    : deployment?.verificationGuid
+                      ? "Submitted. Checking status..."
+                      : result.message;
+                return (
+                  <div
+                    key={result.deploymentId}
+                    className="flex items-start justify-between gap-3 text-sm"
+                    data-testid={`row-bulk-result-${result.deploymentId}`}
+                  >
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">
+                        {result.contractName ?? `Deployment #${result.deploymentId}`}
+                        {result.network && (
+                          <span className="text-muted-foreground font-normal"> · {getNetworkInfo(result.network)?.name || result.network}</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{message}</div>
+                    </div>
+                    <Badge
+                      variant={status === 'failed' ? 'destructive' : status === 'skipped' ? 'outline' : status === 'verified' ? 'default' : 'secondary'}
+                      className="flex-shrink-0"
+                    >
+                      {status === 'pending' ? (deployment?.verificationGuid ? 'Submitted' : 'Queued') : status === 'verified' ? 'Verified' : status === 'failed' ? 'Failed' : 'Skipped'}
+                    </Badge>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
       <AlertDialog open={showAssociateDialog} onOpenChange={setShowAssociateDialog}>
         <AlertDialogContent data-testid="dialog-associate-all">
           <AlertDialogHeader>
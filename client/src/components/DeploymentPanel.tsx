@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { Loader2, CheckCircle2, XCircle, Copy, ExternalLink, ChevronDown } from "lucide-react";
+import { useState, useEffect } from "react";
+import { Loader2, CheckCircle2, XCircle, Copy, ExternalLink, ChevronDown, AlertTriangle } from "lucide-react";
 import { SiEthereum, SiBinance, SiPolygon } from "react-icons/si";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,30 +9,76 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
 import {
   Collapsible,
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import { useToast } from "@/hooks/use-toast";
-import type { DeploymentState, Network } from "@shared/schema";
-import { NETWORKS } from "@shared/schema";
+import type { AdvancedCompilerSettings, CompileJob, CompiledContract, Create2CheckResponse, Create2NetworkStatus, DeploymentState, EvmVersion, Network } from "@shared/schema";
+import { EVM_VERSIONS, NETWORKS, OPENZEPPELIN_VERSIONS } from "@shared/schema";
+import { getRequiredLibraries, loadLibraryAddresses, type RequiredLibrary } from "@/lib/linker";
+import { formatBytes, getContractSizeReport, getSizeSuggestions, type SizeCheck } from "@/lib/contract-size";
+import { getCreate2DeploymentAddress, getInitcode, normalizeSalt } from "@/lib/create2";
+import { apiRequest } from "@/lib/queryClient";
+import { ArtifactsPanel } from "./ArtifactsPanel";
+import { MultiDeployDialog, type NetworkDeployOptions, type NetworkDeployResult } from "./MultiDeployDialog";
 
 interface DeploymentPanelProps {
   deploymentState: DeploymentState;
   selectedNetwork: Network;
   onSelectNetwork: (network: Network) => void;
   onCompile: () => void;
-  onDeploy: (constructorArgs: string[]) => void;
+  onCancelCompile?: () => void;
+  compileJob?: CompileJob | null; // Server-side job while compiling
+  onDeploy: (constructorArgs: string[], libraryAddresses: Record<string, string>, create2Salt?: string) => void; // Salt set for CREATE2 factory deployments
+  onDeployLibrary: (library: RequiredLibrary) => Promise<string | null>; // Resolves with the deployed address
+  onSelectContract: (contract: CompiledContract) => void;
   walletConnected: boolean;
   optimizationEnabled: boolean;
   onOptimizationEnabledChange: (enabled: boolean) => void;
   optimizationRuns: number;
   onOptimizationRunsChange: (runs: number) => void;
-  evmVersion: "paris" | "shanghai" | "cancun" | "london" | "berlin" | "istanbul";
-  onEvmVersionChange: (version: "paris" | "shanghai" | "cancun" | "london" | "berlin" | "istanbul") => void;
+  evmVersion: EvmVersion;
+  onEvmVersionChange: (version: EvmVersion) => void;
+  advancedSettings: AdvancedCompilerSettings;
+  onAdvancedSettingsChange: (settings: AdvancedCompilerSettings) => void;
+  openzeppelinVersion?: string;
+  onOpenzeppelinVersionChange: (version: string | undefined) => void;
+  extendedArtifacts: boolean;
+  onExtendedArtifactsChange: (enabled: boolean) => void;
+  onExportStandardJson?: () => void; // Download the compiler input for the current source and settings
+  onPrepareDeploy?: () => Promise<boolean>; // Resolves false when the wallet isn't connected and signed in
+  onDeployToNetwork?: ( // Enables deploying to several networks as one release
+    network: Network,
+    constructorArgs: string[],
+    libraryAddresses: Record<string, string>,
+    options: NetworkDeployOptions
+  ) => Promise<NetworkDeployResult>;
 }
 
+// Select value for "no explicit version"; Radix selects can't use an empty string
+const WORKSPACE_DEFAULT = "workspace";
+
+// Display names for EVM targets, newest first in the picker
+const EVM_VERSION_LABELS: Record<EvmVersion, string> = {
+  homestead: "Homestead",
+  tangerineWhistle: "Tangerine Whistle",
+  spuriousDragon: "Spurious Dragon",
+  byzantium: "Byzantium",
+  constantinople: "Constantinople",
+  petersburg: "Petersburg",
+  istanbul: "Istanbul",
+  berlin: "Berlin",
+  london: "London",
+  paris: "Paris (default)",
+  shanghai: "Shanghai",
+  cancun: "Cancun",
+  prague: "Prague",
+  osaka: "Osaka",
+};
+
 const NetworkIcon = ({ network }: { network: Network }) => {
   const getIcon = () => {
     switch (network.icon) {
@@ -84,7 +130,11 @@ export function DeploymentPanel({
   selectedNetwork,
   onSelectNetwork,
   onCompile,
+  onCancelCompile,
+  compileJob,
   onDeploy,
+  onDeployLibrary,
+  onSelectContract,
   walletConnected,
   optimizationEnabled,
   onOptimizationEnabledChange,
@@ -92,10 +142,69 @@ export function DeploymentPanel({
   onOptimizationRunsChange,
   evmVersion,
   onEvmVersionChange,
+  advancedSettings,
+  onAdvancedSettingsChange,
+  openzeppelinVersion,
+  onOpenzeppelinVersionChange,
+  extendedArtifacts,
+  onExtendedArtifactsChange,
+  onExportStandardJson,
+  onPrepareDeploy,
+  onDeployToNetwork,
 }: DeploymentPanelProps) {
   const { toast } = useToast();
   const [constructorArgs, setConstructorArgs] = useState<string[]>([]);
   const [advancedOpen, setAdvancedOpen] = useState(false);
+  const [libraryAddresses, setLibraryAddresses] = useState<Record<string, string>>({});
+  const [deployingLibrary, setDeployingLibrary] = useState<string | null>(null);
+  const [artifactsOpen, setArtifactsOpen] = useState(false);
+  const [create2Enabled, setCreate2Enabled] = useState(false);
+  const [create2Salt, setCreate2Salt] = useState("");
+  const [create2Check, setCreate2Check] = useState<{ address: string; networks: Create2NetworkStatus[] } | null>(null);
+  const [checkingCreate2, setCheckingCreate2] = useState(false);
+  const [multiDeployOpen, setMultiDeployOpen] = useState(false);
+
+  const requiredLibraries = deploymentState.compiledContract
+    ? getRequiredLibraries(deploymentState.compiledContract)
+    : [];
+  const missingLibraries = requiredLibraries.filter(
+    (library) => !/^0x[a-fA-F0-9]{40}$/.test(libraryAddresses[library.key] || "")
+  );
+  const sizeReport = deploymentState.compiledContract
+    ? getContractSizeReport(deploymentState.compiledContract, selectedNetwork)
+    : null;
+  const constructorArgValues = deploymentState.compiledContract?.constructorInputs.map((_, i) => constructorArgs[i] || "") ?? [];
+
+  // The CREATE2 address changes with the salt, constructor arguments and linked libraries
+  let create2Address: string | null = null;
+  let create2Error: string | null = null;
+  // Constructors that read msg.sender would hand ownership or minted tokens to the factory
+  const create2Blocked = create2Enabled && deploymentState.compiledContract?.constructorUsesSender === true;
+  if (create2Enabled && deploymentState.compiledContract && create2Salt.trim()) {
+    try {
+      const initcode = getInitcode(deploymentState.compiledContract, constructorArgValues, libraryAddresses);
+      create2Address = getCreate2DeploymentAddress(initcode, normalizeSalt(create2Salt));
+    } catch (error) {
+      create2Error = error instanceof Error ? error.message : "Invalid constructor arguments";
+    }
+  }
+
+  // Prefill library addresses remembered for the selected network
+  useEffect(() => {
+    setLibraryAddresses(loadLibraryAddresses(selectedNetwork.chainId));
+  }, [selectedNetwork.chainId, deploymentState.compiledContract]);
+
+  const handleDeployLibrary = async (library: RequiredLibrary) => {
+    setDeployingLibrary(library.key);
+    try {
+      const address = await onDeployLibrary(library);
+      if (address) {
+        setLibraryAddresses((prev) => ({ ...prev, [library.key]: address }));
+      }
+    } finally {
+      setDeployingLibrary(null);
+    }
+  };
 
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text);
@@ -106,14 +215,81 @@ export function DeploymentPanel({
   };
 
   const handleDeploy = () => {
+    const salt = create2Enabled ? normalizeSalt(create2Salt) : undefined;
     if (deploymentState.compiledContract?.constructorInputs.length) {
       const args = deploymentState.compiledContract.constructorInputs.map((input, i) => {
         return constructorArgs[i] || "";
       });
-      onDeploy(args);
+      onDeploy(args, libraryAddresses, salt);
     } else {
-      onDeploy([]);
+      onDeploy([], libraryAddresses, salt);
+    }
+  };
+
+  const handleCheckCreate2 = async (address: string) => {
+    setCheckingCreate2(true);
+    try {
+      const response = await apiRequest("POST", "/api/create2/check", { address });
+      const { networks }: Create2CheckResponse = await response.json();
+      setCreate2Check({ address, networks });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Check failed",
+        description: error instanceof Error ? error.message : "Failed to check networks",
+      });
+    } finally {
+      setCheckingCreate2(false);
+    }
+  };
+
+  const renderCreate2Status = (status: Create2NetworkStatus) => {
+    if (status.deployed) {
+      return <Badge variant="secondary">Already deployed</Badge>;
+    }
+    if (status.factoryAvailable === false) {
+      return <Badge variant="destructive">No factory</Badge>;
+    }
+    if (status.deployed === null) {
+      return <Badge variant="outline" title={status.error}>Unreachable</Badge>;
     }
+    return <Badge variant="outline">Available</Badge>;
+  };
+
+  const contractKey = (contract: CompiledContract) => `${contract.sourceName}:${contract.contractName}`;
+
+  const handleSelectContract = (key: string) => {
+    const contract = deploymentState.compiledContracts?.find((c) => contractKey(c) === key);
+    if (contract) {
+      setConstructorArgs([]);
+      onSelectContract(contract);
+    }
+  };
+
+  const renderSizeCheck = (label: string, check: SizeCheck, testId: string) => (
+    <div className="space-y-1" data-testid={testId}>
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium">{label}</span>
+        <span className={check.exceeded ? "text-destructive" : "text-muted-foreground"}>
+          {formatBytes(check.size)} / {formatBytes(check.limit)}
+        </span>
+      </div>
+      <Progress
+        value={Math.min((check.size / check.limit) * 100, 100)}
+        className={`h-2 ${check.exceeded ? "[&>div]:bg-destructive" : ""}`}
+      />
+      <p className={`text-xs ${check.exceeded ? "text-destructive" : "text-muted-foreground"}`}>
+        {check.exceeded
+          ? `${formatBytes(-check.remaining)} over the limit`
+          : `${formatBytes(check.remaining)} remaining`}
+      </p>
+    </div>
+  );
+
+  const describeContract = (contract: CompiledContract) => {
+    if (contract.kind === "interface") return "interface";
+    if (contract.kind === "library") return "library";
+    return contract.isAbstract ? "abstract" : null;
   };
 
   const ethereumNetworks = NETWORKS.filter((n) => n.category === "ethereum");
@@ -158,6 +334,8 @@ export function DeploymentPanel({
               <div className="flex items-center gap-2">
                 <span className="text-xs text-muted-foreground">
                   {optimizationEnabled ? `Optimized (${optimizationRuns} runs)` : "No optimization"} • {evmVersion}
+                  {advancedSettings.viaIR && " • via IR"}
+                  {openzeppelinVersion && ` • OZ ${openzeppelinVersion}`}
                 </span>
                 <ChevronDown className={`h-4 w-4 transition-transform ${advancedOpen ? 'rotate-180' : ''}`} />
               </div>
@@ -211,22 +389,266 @@ export function DeploymentPanel({
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="paris">Paris (default)</SelectItem>
-                  <SelectItem value="shanghai">Shanghai</SelectItem>
-                  <SelectItem value="cancun">Cancun</SelectItem>
-                  <SelectItem value="london">London</SelectItem>
-                  <SelectItem value="berlin">Berlin</SelectItem>
-                  <SelectItem value="istanbul">Istanbul</SelectItem>
+                  {[...EVM_VERSIONS].reverse().map((version) => (
+                    <SelectItem key={version} value={version}>
+                      {EVM_VERSION_LABELS[version]}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <p className="text-xs text-muted-foreground">
                 Target EVM version for bytecode generation
               </p>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="openzeppelin-version">OpenZeppelin Version</Label>
+              <Select
+                value={openzeppelinVersion ?? WORKSPACE_DEFAULT}
+                onValueChange={(value) => onOpenzeppelinVersionChange(value === WORKSPACE_DEFAULT ? undefined : value)}
+              >
+                <SelectTrigger id="openzeppelin-version" data-testid="select-openzeppelin-version">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WORKSPACE_DEFAULT}>Workspace default (v5.0.0 if unset)</SelectItem>
+                  {OPENZEPPELIN_VERSIONS.map((version) => (
+                    <SelectItem key={version} value={version}>
+                      v{version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Release used for @openzeppelin/contracts and contracts-upgradeable imports
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="via-ir">Compile via IR</Label>
+                <p className="text-xs text-muted-foreground">
+                  Use the Yul IR pipeline; fixes "stack too deep" errors
+                </p>
+              </div>
+              <Switch
+                id="via-ir"
+                checked={advancedSettings.viaIR ?? false}
+                onCheckedChange={(viaIR) => onAdvancedSettingsChange({ ...advancedSettings, viaIR })}
+                data-testid="switch-via-ir"
+              />
+            </div>
+
+            {optimizationEnabled && (
+              <div className="space-y-2">
+                <Label>Optimizer Steps</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="optimizer-yul" className="font-normal">Yul optimizer</Label>
+                  <Switch
+                    id="optimizer-yul"
+                    checked={advancedSettings.optimizerDetails?.yul ?? true}
+                    onCheckedChange={(yul) => onAdvancedSettingsChange({
+                      ...advancedSettings,
+                      optimizerDetails: { ...advancedSettings.optimizerDetails, yul },
+                    })}
+                    data-testid="switch-optimizer-yul"
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="optimizer-inliner" className="font-normal">Inliner</Label>
+                  <Switch
+                    id="optimizer-inliner"
+                    checked={advancedSettings.optimizerDetails?.inliner ?? true}
+                    onCheckedChange={(inliner) => onAdvancedSettingsChange({
+                      ...advancedSettings,
+                      optimizerDetails: { ...advancedSettings.optimizerDetails, inliner },
+                    })}
+                    data-testid="switch-optimizer-inliner"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="metadata-hash">Metadata Hash</Label>
+              <Select
+                value={advancedSettings.metadataBytecodeHash ?? "ipfs"}
+                onValueChange={(value) => onAdvancedSettingsChange({
+                  ...advancedSettings,
+                  metadataBytecodeHash: value as AdvancedCompilerSettings["metadataBytecodeHash"],
+                })}
+              >
+                <SelectTrigger id="metadata-hash" data-testid="select-metadata-hash">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ipfs">IPFS (default)</SelectItem>
+                  <SelectItem value="bzzr1">Swarm (bzzr1)</SelectItem>
+                  <SelectItem value="none">None</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="append-cbor">Append CBOR Metadata</Label>
+                <p className="text-xs text-muted-foreground">
+                  Append encoded metadata to the end of the bytecode
+                </p>
+              </div>
+              <Switch
+                id="append-cbor"
+                checked={advancedSettings.appendCBOR ?? true}
+                onCheckedChange={(appendCBOR) => onAdvancedSettingsChange({ ...advancedSettings, appendCBOR })}
+                data-testid="switch-append-cbor"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="revert-strings">Revert Strings</Label>
+              <Select
+                value={advancedSettings.revertStrings ?? "default"}
+                onValueChange={(value) => onAdvancedSettingsChange({
+                  ...advancedSettings,
+                  revertStrings: value as AdvancedCompilerSettings["revertStrings"],
+                })}
+              >
+                <SelectTrigger id="revert-strings" data-testid="select-revert-strings">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Default</SelectItem>
+                  <SelectItem value="strip">Strip</SelectItem>
+                  <SelectItem value="debug">Debug</SelectItem>
+                  <SelectItem value="verboseDebug">Verbose debug</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="extended-artifacts">Extended Artifacts</Label>
+                <p className="text-xs text-muted-foreground">
+                  Include storage layout, gas estimates, NatSpec and AST in the output
+                </p>
+              </div>
+              <Switch
+                id="extended-artifacts"
+                checked={extendedArtifacts}
+                onCheckedChange={onExtendedArtifactsChange}
+                data-testid="switch-extended-artifacts"
+              />
+            </div>
           </CollapsibleContent>
         </Collapsible>
       </div>
 
+      {deploymentState.compiledContract &&
+        deploymentState.compiledContracts &&
+        deploymentState.compiledContracts.length > 1 && (
+          <div>
+            <h2 className="mb-4 text-xl font-semibold">Contract</h2>
+            <Select
+              value={contractKey(deploymentState.compiledContract)}
+              onValueChange={handleSelectContract}
+              disabled={deploymentState.status === "deploying"}
+            >
+              <SelectTrigger data-testid="select-contract">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {deploymentState.compiledContracts.map((contract) => {
+                  const key = contractKey(contract);
+                  const label = describeContract(contract);
+                  return (
+                    <SelectItem
+                      key={key}
+                      value={key}
+                      disabled={!contract.bytecode || contract.isAbstract || contract.kind === "interface"}
+                      data-testid={`select-item-contract-${contract.contractName}`}
+                    >
+                      <span className="font-mono text-xs">{contract.contractName}</span>
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {contract.sourceName}
+                        {label && ` • ${label}`}
+                      </span>
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+            <p className="mt-2 text-xs text-muted-foreground">
+              Interfaces and abstract contracts cannot be deployed
+            </p>
+          </div>
+        )}
+
+      {sizeReport && (
+        <div>
+          <h2 className="mb-4 text-xl font-semibold">Contract Size</h2>
+          <div className="space-y-4">
+            {renderSizeCheck("Runtime (EIP-170)", sizeReport.runtime, "size-runtime")}
+            {renderSizeCheck("Initcode (EIP-3860)", sizeReport.initcode, "size-initcode")}
+          </div>
+          {sizeReport.exceeded && (
+            <Alert variant="destructive" className="mt-4" data-testid="alert-size-exceeded">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription className="ml-2">
+                <p className="mb-2">This contract is too large to deploy on {selectedNetwork.name}. Try:</p>
+                <ul className="list-disc space-y-1 pl-4 text-xs">
+                  {getSizeSuggestions({ optimizationEnabled, optimizationRuns, ...advancedSettings }).map((suggestion) => (
+                    <li key={suggestion}>{suggestion}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+      )}
+
+      {requiredLibraries.length > 0 && (
+        <div>
+          <h2 className="mb-2 text-xl font-semibold">Libraries</h2>
+          <p className="mb-4 text-xs text-muted-foreground">
+            This contract calls external libraries. Enter their addresses on {selectedNetwork.name} or deploy them first.
+          </p>
+          <div className="space-y-4">
+            {requiredLibraries.map((library) => (
+              <div key={library.key}>
+                <Label htmlFor={`library-${library.key}`} className="mb-2">
+                  {library.libraryName}
+                  <span className="ml-2 text-xs text-muted-foreground font-mono">
+                    ({library.sourceName})
+                  </span>
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id={`library-${library.key}`}
+                    placeholder="0x..."
+                    value={libraryAddresses[library.key] || ""}
+                    onChange={(e) => setLibraryAddresses((prev) => ({ ...prev, [library.key]: e.target.value.trim() }))}
+                    className="font-mono"
+                    data-testid={`input-library-${library.libraryName}`}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => handleDeployLibrary(library)}
+                    disabled={!walletConnected || deployingLibrary !== null || deploymentState.status === "deploying"}
+                    data-testid={`button-deploy-library-${library.libraryName}`}
+                  >
+                    {deployingLibrary === library.key ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      "Deploy"
+                    )}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {deploymentState.compiledContract?.constructorInputs &&
         deploymentState.compiledContract.constructorInputs.length > 0 && (
           <div>
@@ -258,6 +680,103 @@ export function DeploymentPanel({
           </div>
         )}
 
+      {deploymentState.compiledContract && (
+        <div>
+          <div className="mb-4 flex items-center justify-between">
+            <div className="space-y-0.5">
+              <h2 className="text-xl font-semibold">Deterministic Address</h2>
+              <p className="text-xs text-muted-foreground">
+                Deploy through the CREATE2 factory to get the same address on every network
+              </p>
+            </div>
+            <Switch
+              id="create2-enabled"
+              checked={create2Enabled}
+              onCheckedChange={setCreate2Enabled}
+              data-testid="switch-create2"
+            />
+          </div>
+
+          {create2Enabled && (
+            <div className="space-y-4">
+              {create2Blocked && (
+                <Alert variant="destructive" data-testid="alert-create2-sender">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription className="ml-2">
+                    {deploymentState.compiledContract?.contractName} uses msg.sender in its constructor. Through the
+                    CREATE2 factory, msg.sender is the factory, so it would become the owner or receive the minted
+                    tokens. Take the owner as a constructor argument instead, or deploy without CREATE2.
+                  </AlertDescription>
+                </Alert>
+              )}
+              <div>
+                <Label htmlFor="create2-salt" className="mb-2">
+                  Salt
+                  <span className="ml-2 text-xs text-muted-foreground">(hex up to 32 bytes, or any text)</span>
+                </Label>
+                <Input
+                  id="create2-salt"
+                  placeholder="0x... or my-token-v1"
+                  value={create2Salt}
+                  onChange={(e) => setCreate2Salt(e.target.value)}
+                  className="font-mono"
+                  data-testid="input-create2-salt"
+                />
+              </div>
+
+              <div>
+                <Label className="mb-2">Deployment Address</Label>
+                {create2Address ? (
+                  <div className="flex gap-2">
+                    <Input
+                      value={create2Address}
+                      readOnly
+                      className="flex-1 font-mono text-sm"
+                      data-testid="input-create2-address"
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => copyToClipboard(create2Address!, "Deployment address")}
+                      data-testid="button-copy-create2-address"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground" data-testid="text-create2-address-error">
+                    {create2Error ?? "Enter a salt to compute the address"}
+                  </p>
+                )}
+              </div>
+
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => handleCheckCreate2(create2Address!)}
+                disabled={!create2Address || !walletConnected || checkingCreate2}
+                data-testid="button-check-create2"
+              >
+                {checkingCreate2 && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Check Networks
+              </Button>
+
+              {create2Check && create2Check.address === create2Address && (
+                <div className="space-y-2" data-testid="list-create2-networks">
+                  {create2Check.networks.map((status) => (
+                    <div key={status.chainId} className="flex items-center justify-between text-xs">
+                      <span>{NETWORKS.find((n) => n.chainId === status.chainId)?.name ?? status.network}</span>
+                      {renderCreate2Status(status)}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="space-y-2">
         <Button
           onClick={onCompile}
@@ -270,13 +789,52 @@ export function DeploymentPanel({
           {deploymentState.status === "compiling" ? (
             <>
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              Compiling...
+              {compileJob?.status === "queued" && compileJob.queuePosition
+                ? `Queued (#${compileJob.queuePosition})...`
+                : "Compiling..."}
             </>
           ) : (
             "Compile Contract"
           )}
         </Button>
 
+        {deploymentState.status === "compiling" && compileJob && onCancelCompile && (
+          <Button
+            onClick={onCancelCompile}
+            variant="ghost"
+            size="sm"
+            className="w-full"
+            data-testid="button-cancel-compile"
+          >
+            Cancel Compilation
+          </Button>
+        )}
+
+        {onExportStandardJson && (
+          <Button
+            onClick={onExportStandardJson}
+            variant="outline"
+            size="sm"
+            className="w-full"
+            disabled={deploymentState.status === "compiling"}
+            data-testid="button-export-standard-json"
+          >
+            Export Standard JSON
+          </Button>
+        )}
+
+        {deploymentState.compiledContract?.artifacts && (
+          <Button
+            onClick={() => setArtifactsOpen(true)}
+            variant="outline"
+            size="sm"
+            className="w-full"
+            data-testid="button-view-artifacts"
+          >
+            View Artifacts
+          </Button>
+        )}
+
         <Button
           onClick={handleDeploy}
           size="lg"
@@ -284,7 +842,11 @@ export function DeploymentPanel({
           disabled={
             !walletConnected ||
             deploymentState.status === "deploying" ||
-            deploymentState.status !== "compiled"
+            deploymentState.status !== "compiled" ||
+            missingLibraries.length > 0 ||
+            sizeReport?.exceeded === true ||
+            (create2Enabled && !create2Address) ||
+            create2Blocked
           }
           data-testid="button-deploy"
         >
@@ -298,6 +860,25 @@ export function DeploymentPanel({
           )}
         </Button>
 
+        {onDeployToNetwork && onPrepareDeploy && (
+          <Button
+            onClick={() => setMultiDeployOpen(true)}
+            variant="outline"
+            className="w-full"
+            disabled={
+              !walletConnected ||
+              !deploymentState.compiledContract ||
+              deploymentState.status === "compiling" ||
+              deploymentState.status === "deploying" ||
+              (create2Enabled && !create2Address) ||
+              create2Blocked
+            }
+            data-testid="button-multi-deploy"
+          >
+            Deploy to Multiple Networks
+          </Button>
+        )}
+
         {!walletConnected && (
           <p className="text-center text-sm text-muted-foreground">
             Connect your wallet to deploy
@@ -464,6 +1045,27 @@ export function DeploymentPanel({
         </div>
       )}
       </div>
+
+      {deploymentState.compiledContract?.artifacts && (
+        <ArtifactsPanel
+          open={artifactsOpen}
+          onOpenChange={setArtifactsOpen}
+          contract={deploymentState.compiledContract}
+          asts={deploymentState.asts}
+        />
+      )}
+
+      {deploymentState.compiledContract && onDeployToNetwork && onPrepareDeploy && (
+        <MultiDeployDialog
+          open={multiDeployOpen}
+          onOpenChange={setMultiDeployOpen}
+          contract={deploymentState.compiledContract}
+          defaultConstructorArgs={constructorArgValues}
+          create2Salt={create2Enabled && create2Address ? normalizeSalt(create2Salt) : undefined}
+          onPrepare={onPrepareDeploy}
+          onDeployToNetwork={onDeployToNetwork}
+        />
+      )}
     </div>
   );
 }
@@ -1,10 +1,12 @@
-import { useState } from "react";
-import Editor from "@monaco-editor/react";
+import { useState, useRef, useEffect } from "react";
+import Editor, { type OnMount } from "@monaco-editor/react";
 import { Card, CardHeader, CardContent, CardFooter } from "@/components/ui/card";
 import { FileTabs } from "./FileTabs";
 import { Button } from "@/components/ui/button";
 import { Download, Upload, FileCode2 } from "lucide-react";
-import type { WorkspaceFile } from "@shared/schema";
+import type { CompilerDiagnostic, WorkspaceFile } from "@shared/schema";
+import { ProblemsPanel } from "./ProblemsPanel";
+import { applyDiagnosticMarkers } from "@/lib/diagnostics";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -23,6 +25,9 @@ interface EditorPanelProps {
   onFileSelect: (file: WorkspaceFile) => void;
   onOpenTemplates?: () => void;
   isLeftPanelCollapsed?: boolean;
+  diagnostics?: CompilerDiagnostic[];
+  currentPath?: string; // Source path the editor content was compiled as
+  onOpenPath?: (path: string) => void;
 }
 
 const SOLIDITY_VERSIONS = [
@@ -53,8 +58,43 @@ export function EditorPanel({
   onFileSelect,
   onOpenTemplates,
   isLeftPanelCollapsed = false,
+  diagnostics = [],
+  currentPath,
+  onOpenPath,
 }: EditorPanelProps) {
   const [charCount, setCharCount] = useState(code.length);
+  const editorRef = useRef<Parameters<OnMount>[0] | null>(null);
+  const monacoRef = useRef<Parameters<OnMount>[1] | null>(null);
+  const [editorReady, setEditorReady] = useState(false);
+
+  // Render diagnostics for the displayed file as Monaco markers
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    if (!editorReady || !monacoRef.current || !model) return;
+    applyDiagnosticMarkers(
+      monacoRef.current,
+      model,
+      diagnostics.filter((d) => d.sourceFile === currentPath)
+    );
+  }, [diagnostics, currentPath, editorReady]);
+
+  const handleEditorMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+    setEditorReady(true);
+  };
+
+  const handleSelectDiagnostic = (diagnostic: CompilerDiagnostic) => {
+    if (diagnostic.sourceFile && diagnostic.sourceFile !== currentPath) {
+      onOpenPath?.(diagnostic.sourceFile);
+      return;
+    }
+    if (diagnostic.startLine !== undefined && editorRef.current) {
+      editorRef.current.revealLineInCenter(diagnostic.startLine);
+      editorRef.current.setPosition({ lineNumber: diagnostic.startLine, column: diagnostic.startColumn ?? 1 });
+      editorRef.current.focus();
+    }
+  };
 
   const handleEditorChange = (value: string | undefined) => {
     const newValue = value || "";
@@ -144,7 +184,7 @@ export function EditorPanel({
             <input
               id="file-upload"
               type="file"
-              accept=".sol"
+              accept=".sol,.vy"
               className="hidden"
               onChange={handleUpload}
               data-testid="input-file-upload"
@@ -168,9 +208,10 @@ export function EditorPanel({
         <div className="flex-1 overflow-hidden">
           <Editor
             height="100%"
-            language="sol"
+            language={activeFile?.path.endsWith(".vy") ? "python" : "sol"} // Monaco has no Vyper mode; Python is the closest
             value={code}
             onChange={handleEditorChange}
+            onMount={handleEditorMount}
             theme="vs-dark"
             options={{
               minimap: { enabled: true },
@@ -184,6 +225,8 @@ export function EditorPanel({
             }}
           />
         </div>
+
+        <ProblemsPanel diagnostics={diagnostics} onSelectDiagnostic={handleSelectDiagnostic} />
       </CardContent>
 
       <CardFooter className={`p-2 border-t text-xs text-muted-foreground justify-between gap-3 ${isLeftPanelCollapsed ? 'pl-14' : ''}`}>
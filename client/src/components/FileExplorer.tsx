@@ -1,6 +1,6 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import type { WorkspaceFile } from "@shared/schema";
-import { ChevronRight, ChevronDown, File, Folder, FolderOpen, Plus, Trash2, Edit2, FileCode, ChevronsUpDown } from "lucide-react";
+import { ChevronRight, ChevronDown, File, Folder, FolderOpen, Plus, Trash2, Edit2, FileCode, FileJson, ChevronsUpDown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   ContextMenu,
@@ -35,6 +35,7 @@ interface FileExplorerProps {
   onFileCreate: (path: string, isDirectory: boolean) => Promise<void>;
   onFileDelete: (file: WorkspaceFile) => Promise<void>;
   onFileRename: (file: WorkspaceFile, newPath: string) => Promise<void>;
+  onImportStandardJson?: (file: File) => Promise<void>; // Shows the import button when set
 }
 
 function buildFileTree(files: WorkspaceFile[]): FileTreeNode[] {
@@ -109,7 +110,7 @@ function TreeNode({
 
   const IconComponent = node.isDirectory
     ? (expanded ? FolderOpen : Folder)
-    : (node.name.endsWith('.sol') ? FileCode : File);
+    : (node.name.endsWith('.sol') || node.name.endsWith('.vy') ? FileCode : File);
 
   return (
     <div>
@@ -193,8 +194,10 @@ export function FileExplorer({
   onFileCreate,
   onFileDelete,
   onFileRename,
+  onImportStandardJson,
 }: FileExplorerProps) {
   const { toast } = useToast();
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [createIsDirectory, setCreateIsDirectory] = useState(false);
@@ -304,6 +307,14 @@ export function FileExplorer({
     }
   };
 
+  const handleImportChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (file && onImportStandardJson) {
+      await onImportStandardJson(file);
+    }
+  };
+
   return (
     <div className="flex flex-col h-full border-r">
       <div className="flex items-center justify-between p-3 border-b border-r gap-2">
@@ -336,6 +347,27 @@ export function FileExplorer({
           >
             <Folder className="w-4 h-4" />
           </Button>
+          {onImportStandardJson && (
+            <>
+              <Button 
+                size="icon" 
+                variant="ghost" 
+                onClick={() => importInputRef.current?.click()}
+                title="Import standard JSON input"
+                data-testid="button-import-standard-json"
+              >
+                <FileJson className="w-4 h-4" />
+              </Button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={handleImportChange}
+                data-testid="input-import-standard-json"
+              />
+            </>
+          )}
         </div>
       </div>
 
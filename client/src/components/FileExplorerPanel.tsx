@@ -12,6 +12,7 @@ interface FileExplorerPanelProps {
   onFileCreate: (path: string, isDirectory: boolean) => Promise<void>;
   onFileDelete: (file: WorkspaceFile) => Promise<void>;
   onFileRename: (file: WorkspaceFile, newPath: string) => Promise<void>;
+  onImportStandardJson?: (file: File) => Promise<void>;
 }
 
 export function FileExplorerPanel({
@@ -24,6 +25,7 @@ export function FileExplorerPanel({
   onFileCreate,
   onFileDelete,
   onFileRename,
+  onImportStandardJson,
 }: FileExplorerPanelProps) {
   return (
     <div className="flex h-full flex-col bg-card" data-testid="file-explorer-panel">
@@ -40,6 +42,7 @@ export function FileExplorerPanel({
         onFileCreate={onFileCreate}
         onFileDelete={onFileDelete}
         onFileRename={onFileRename}
+        onImportStandardJson={onImportStandardJson}
       />
     </div>
   );
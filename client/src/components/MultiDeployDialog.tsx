@@ -0,0 +1,417 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CheckCircle2, Clock, ExternalLink, Loader2, XCircle } from "lucide-react";
+import type { CompiledContract, Network, Release, ReleaseWithDeployments } from "@shared/schema";
+import { NETWORKS } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getRequiredLibraries, loadLibraryAddresses } from "@/lib/linker";
+
+// Where a deployment to one network is up to
+export type NetworkDeployStage = "switching" | "signing" | "confirming";
+
+export interface NetworkDeployOptions {
+  create2Salt?: string;
+  releaseId?: number;
+  onStage?: (stage: NetworkDeployStage) => void;
+}
+
+export interface NetworkDeployResult {
+  contractAddress: string;
+  transactionHash: string;
+}
+
+interface NetworkProgress {
+  stage: "queued" | NetworkDeployStage | "deployed" | "failed";
+  contractAddress?: string;
+  error?: string;
+}
+
+const STAGE_LABELS: Record<NetworkProgress["stage"], string> = {
+  queued: "Queued",
+  switching: "Switching network",
+  signing: "Waiting for signature",
+  confirming: "Confirming",
+  deployed: "Deployed",
+  failed: "Failed",
+};
+
+/**
+ * Progress as recorded on the server. A network counts as done once its latest deployment
+ * was sent and didn't fail or get dropped, even if the tab gave up waiting for the receipt.
+ */
+function progressFromRelease(
+  release: ReleaseWithDeployments,
+  local: Record<string, NetworkProgress>
+): Record<string, NetworkProgress> {
+  const progress = { ...local };
+  for (const networkId of release.networks) {
+    const latest = release.deployments
+      .filter((d) => d.network === networkId)
+      .sort((a, b) => b.id - a.id)[0];
+    if (!latest) {
+      continue;
+    }
+    if (latest.status === "failed" || latest.status === "dropped") {
+      // A local error from a later attempt that never reached the chain says more
+      progress[networkId] = local[networkId]?.stage === "failed"
+        ? local[networkId]
+        : { stage: "failed", error: latest.status === "dropped" ? "Transaction was dropped" : "Deployment transaction reverted" };
+    } else {
+      progress[networkId] = { stage: "deployed", contractAddress: latest.contractAddress };
+    }
+  }
+  return progress;
+}
+
+interface MultiDeployDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contract: CompiledContract;
+  defaultConstructorArgs: string[];
+  create2Salt?: string; // Same salt on every network, for the same address everywhere
+  resumeRelease?: Release; // Existing release to continue, with its networks, arguments and salt
+  onPrepare: () => Promise<boolean>; // Resolves false when the wallet isn't connected and signed in
+  onDeployToNetwork: (
+    network: Network,
+    constructorArgs: string[],
+    libraryAddresses: Record<string, string>,
+    options: NetworkDeployOptions
+  ) => Promise<NetworkDeployResult>;
+}
+
+export function MultiDeployDialog({
+  open,
+  onOpenChange,
+  contract,
+  defaultConstructorArgs,
+  create2Salt,
+  resumeRelease,
+  onPrepare,
+  onDeployToNetwork,
+}: MultiDeployDialogProps) {
+  const { toast } = useToast();
+  const resumedArgs = resumeRelease ? resumeRelease.networks.map((id) => resumeRelease.constructorArgs[id] ?? []) : [];
+  const [name, setName] = useState(resumeRelease?.name ?? "");
+  const [selectedIds, setSelectedIds] = useState<string[]>(resumeRelease?.networks ?? []);
+  const [sharedArgs, setSharedArgs] = useState(
+    resumedArgs.every((args) => JSON.stringify(args) === JSON.stringify(resumedArgs[0]))
+  );
+  const [constructorArgs, setConstructorArgs] = useState<Record<string, string[]>>(resumeRelease?.constructorArgs ?? {});
+  const [defaultArgs, setDefaultArgs] = useState<string[]>(resumedArgs[0] ?? []);
+  const [progress, setProgress] = useState<Record<string, NetworkProgress>>({});
+  const [release, setRelease] = useState<Release | null>(resumeRelease ?? null);
+  const [running, setRunning] = useState(false);
+  const stopRequestedRef = useRef(false);
+  // A release keeps the salt it was created with
+  const salt = release ? release.create2Salt ?? undefined : create2Salt;
+
+  // What the server knows about the release's deployments, refetched after every run
+  const { data: releaseDetails, isFetching: refreshingRelease } = useQuery<ReleaseWithDeployments>({
+    queryKey: ["/api/releases", release?.id],
+    enabled: !!release,
+  });
+
+  useEffect(() => {
+    if (releaseDetails && !running) {
+      setProgress((prev) => progressFromRelease(releaseDetails, prev));
+    }
+  }, [releaseDetails, running]);
+
+  // Start a fresh release for whatever was compiled last, keeping a rollout in progress
+  useEffect(() => {
+    if (open && !release) {
+      setName(`${contract.contractName} release`);
+      setDefaultArgs(contract.constructorInputs.map((_, i) => defaultConstructorArgs[i] || ""));
+    }
+  }, [open, contract]);
+
+  // Networks in the order they're deployed to
+  const selectedNetworks = NETWORKS.filter((n) => selectedIds.includes(n.id));
+  const argsFor = (networkId: string) =>
+    sharedArgs ? defaultArgs : constructorArgs[networkId] ?? defaultArgs;
+  const deployedCount = selectedNetworks.filter((n) => progress[n.id]?.stage === "deployed").length;
+  const remainingNetworks = selectedNetworks.filter((n) => progress[n.id]?.stage !== "deployed");
+  const locked = running || !!release; // A release's networks and arguments are fixed once it exists
+
+  const toggleNetwork = (networkId: string, selected: boolean) => {
+    setSelectedIds((prev) => (selected ? [...prev, networkId] : prev.filter((id) => id !== networkId)));
+  };
+
+  const updateArg = (networkId: string | null, index: number, value: string) => {
+    if (networkId === null) {
+      setDefaultArgs((prev) => prev.map((arg, i) => (i === index ? value : arg)));
+      return;
+    }
+    setConstructorArgs((prev) => {
+      const args = [...(prev[networkId] ?? defaultArgs)];
+      args[index] = value;
+      return { ...prev, [networkId]: args };
+    });
+  };
+
+  const setNetworkProgress = (networkId: string, update: NetworkProgress) => {
+    setProgress((prev) => ({ ...prev, [networkId]: update }));
+  };
+
+  // Deploy to each network in turn. Failures don't stop the rollout; they can be resumed afterwards.
+  const run = async (targets: Network[]) => {
+    if (!(await onPrepare())) {
+      return;
+    }
+
+    stopRequestedRef.current = false;
+    setRunning(true);
+    targets.forEach((network) => setNetworkProgress(network.id, { stage: "queued" }));
+
+    try {
+      let current = release;
+      if (!current) {
+        const response = await apiRequest("POST", "/api/releases", {
+          name,
+          contractName: contract.contractName,
+          networks: selectedNetworks.map((n) => n.id),
+          constructorArgs: Object.fromEntries(selectedNetworks.map((n) => [n.id, argsFor(n.id)])),
+          create2Salt: salt,
+        });
+        current = (await response.json()) as Release;
+        setRelease(current);
+      }
+
+      for (const network of targets) {
+        if (stopRequestedRef.current) {
+          break;
+        }
+
+        // Libraries are linked with the addresses remembered for each network
+        const libraryAddresses = loadLibraryAddresses(network.chainId);
+        const missing = getRequiredLibraries(contract).filter((library) => !libraryAddresses[library.key]);
+        if (missing.length > 0) {
+          setNetworkProgress(network.id, {
+            stage: "failed",
+            error: `Deploy ${missing.map((l) => l.libraryName).join(", ")} on ${network.name} first`,
+          });
+          continue;
+        }
+
+        try {
+          const { contractAddress } = await onDeployToNetwork(network, argsFor(network.id), libraryAddresses, {
+            create2Salt: salt,
+            releaseId: current.id,
+            onStage: (stage) => setNetworkProgress(network.id, { stage }),
+          });
+          setNetworkProgress(network.id, { stage: "deployed", contractAddress });
+        } catch (error: any) {
+          setNetworkProgress(network.id, { stage: "failed", error: error.shortMessage || error.message });
+        }
+      }
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Release failed",
+        description: error.message || "Failed to create release",
+      });
+    } finally {
+      setRunning(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/releases"] });
+    }
+  };
+
+  const handleNewRelease = () => {
+    setRelease(null);
+    setProgress({});
+    setName(`${contract.contractName} release`);
+  };
+
+  const renderStage = (networkId: string) => {
+    const entry = progress[networkId];
+    if (!entry) {
+      return null;
+    }
+    if (entry.stage === "deployed") {
+      return (
+        <Badge variant="default">
+          <CheckCircle2 className="w-3 h-3 mr-1" />
+          {STAGE_LABELS.deployed}
+        </Badge>
+      );
+    }
+    if (entry.stage === "failed") {
+      return (
+        <Badge variant="destructive">
+          <XCircle className="w-3 h-3 mr-1" />
+          {STAGE_LABELS.failed}
+        </Badge>
+      );
+    }
+    return (
+      <Badge variant="secondary">
+        {entry.stage === "queued" ? <Clock className="w-3 h-3 mr-1" /> : <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+        {STAGE_LABELS[entry.stage]}
+      </Badge>
+    );
+  };
+
+  const renderArgInputs = (networkId: string | null, values: string[]) =>
+    contract.constructorInputs.map((input, index) => (
+      <Input
+        key={index}
+        placeholder={`${input.name || `Argument ${index + 1}`} (${input.type})`}
+        value={values[index] || ""}
+        onChange={(e) => updateArg(networkId, index, e.target.value)}
+        disabled={locked}
+        className="font-mono text-xs"
+        data-testid={`input-multi-arg-${networkId ?? "shared"}-${index}`}
+      />
+    ));
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !running && onOpenChange(next)}>
+      <DialogContent className="max-w-2xl" data-testid="dialog-multi-deploy">
+        <DialogHeader>
+          <DialogTitle>Deploy to Multiple Networks</DialogTitle>
+          <DialogDescription>
+            Deploys {contract.contractName} to each selected network in turn. Your wallet switches
+            networks and asks for a signature on each one.
+            {salt && " Deployed through the CREATE2 factory with the same salt everywhere."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh]">
+          <div className="space-y-4 pr-4">
+            <div>
+              <Label htmlFor="release-name" className="mb-2">Release Name</Label>
+              <Input
+                id="release-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={locked}
+                data-testid="input-release-name"
+              />
+            </div>
+
+            {contract.constructorInputs.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="shared-args">Same constructor arguments on every network</Label>
+                  <Switch
+                    id="shared-args"
+                    checked={sharedArgs}
+                    onCheckedChange={setSharedArgs}
+                    disabled={locked}
+                    data-testid="switch-shared-args"
+                  />
+                </div>
+                {sharedArgs && <div className="space-y-2">{renderArgInputs(null, defaultArgs)}</div>}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Networks</Label>
+              {NETWORKS.map((network) => {
+                const selected = selectedIds.includes(network.id);
+                const entry = progress[network.id];
+                return (
+                  <div key={network.id} className="rounded-md border p-3 space-y-2" data-testid={`row-multi-network-${network.id}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <label className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={selected}
+                          onCheckedChange={(checked) => toggleNetwork(network.id, checked === true)}
+                          disabled={locked}
+                          data-testid={`checkbox-multi-network-${network.id}`}
+                        />
+                        {network.name}
+                        {network.isTestnet && <span className="text-xs text-muted-foreground">(testnet)</span>}
+                      </label>
+                      {renderStage(network.id)}
+                    </div>
+
+                    {selected && !sharedArgs && contract.constructorInputs.length > 0 && (
+                      <div className="space-y-2">{renderArgInputs(network.id, argsFor(network.id))}</div>
+                    )}
+
+                    {entry?.contractAddress && (
+                      <div className="flex items-center gap-2 text-xs">
+                        <code className="flex-1 truncate rounded bg-muted px-2 py-1">{entry.contractAddress}</code>
+                        <a
+                          href={`${network.blockExplorer}/address/${entry.contractAddress}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          <ExternalLink className="w-3 h-3" />
+                        </a>
+                      </div>
+                    )}
+                    {entry?.error && <p className="text-xs text-destructive">{entry.error}</p>}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </ScrollArea>
+
+        {release && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{release.name}</span>
+              <span>{deployedCount} of {selectedNetworks.length} networks deployed</span>
+            </div>
+            <Progress value={(deployedCount / Math.max(selectedNetworks.length, 1)) * 100} data-testid="progress-release" />
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {running && (
+            <Button
+              variant="outline"
+              onClick={() => { stopRequestedRef.current = true; }}
+              data-testid="button-stop-release"
+            >
+              Stop After Current Network
+            </Button>
+          )}
+          {!running && release && remainingNetworks.length === 0 && (
+            <Button variant="outline" onClick={handleNewRelease} data-testid="button-new-release">
+              New Release
+            </Button>
+          )}
+          {!running && release && remainingNetworks.length > 0 && (
+            <Button
+              onClick={() => run(remainingNetworks)}
+              disabled={!releaseDetails || refreshingRelease} // Don't resend to networks the server already has a deployment for
+              data-testid="button-resume-release"
+            >
+              Resume ({remainingNetworks.length} remaining)
+            </Button>
+          )}
+          {!release && (
+            <Button
+              onClick={() => run(selectedNetworks)}
+              disabled={running || selectedNetworks.length === 0 || !name.trim()}
+              data-testid="button-start-release"
+            >
+              {running && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Deploy to {selectedNetworks.length} Network{selectedNetworks.length !== 1 ? "s" : ""}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
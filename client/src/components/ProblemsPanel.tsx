@@ -0,0 +1,75 @@
+import { AlertCircle, AlertTriangle, Info } from "lucide-react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { CompilerDiagnostic } from "@shared/schema";
+
+interface ProblemsPanelProps {
+  diagnostics: CompilerDiagnostic[];
+  onSelectDiagnostic?: (diagnostic: CompilerDiagnostic) => void;
+}
+
+const SEVERITY_ORDER: Record<CompilerDiagnostic["severity"], number> = {
+  error: 0,
+  warning: 1,
+  info: 2,
+};
+
+export function ProblemsPanel({ diagnostics, onSelectDiagnostic }: ProblemsPanelProps) {
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  const sorted = [...diagnostics].sort(
+    (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+  );
+  const errorCount = diagnostics.filter((d) => d.severity === "error").length;
+  const warningCount = diagnostics.filter((d) => d.severity === "warning").length;
+
+  const getIcon = (severity: CompilerDiagnostic["severity"]) => {
+    switch (severity) {
+      case "error":
+        return <AlertCircle className="h-3.5 w-3.5 shrink-0 text-destructive" />;
+      case "warning":
+        return <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-yellow-500" />;
+      default:
+        return <Info className="h-3.5 w-3.5 shrink-0 text-blue-500" />;
+    }
+  };
+
+  return (
+    <div className="border-t bg-card" data-testid="problems-panel">
+      <div className="flex items-center gap-3 px-3 py-1.5 border-b text-xs font-medium">
+        <span>Problems</span>
+        <span className="text-muted-foreground" data-testid="text-problem-counts">
+          {errorCount} error{errorCount !== 1 ? "s" : ""}, {warningCount} warning{warningCount !== 1 ? "s" : ""}
+        </span>
+      </div>
+      <ScrollArea className="max-h-40">
+        <ul className="py-1">
+          {sorted.map((diagnostic, index) => (
+            <li key={index}>
+              <button
+                className="flex w-full items-start gap-2 px-3 py-1 text-left text-xs hover-elevate"
+                onClick={() => onSelectDiagnostic?.(diagnostic)}
+                data-testid={`button-problem-${index}`}
+              >
+                {getIcon(diagnostic.severity)}
+                <span className="flex-1">
+                  {diagnostic.message}
+                  {diagnostic.errorCode && (
+                    <span className="ml-1 text-muted-foreground">({diagnostic.errorCode})</span>
+                  )}
+                </span>
+                {diagnostic.sourceFile && (
+                  <span className="shrink-0 font-mono text-muted-foreground">
+                    {diagnostic.sourceFile}
+                    {diagnostic.startLine !== undefined && `:${diagnostic.startLine}:${diagnostic.startColumn}`}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -35,10 +35,12 @@ interface VersionHistoryProps {
   deploymentId: number;
   currentSourceCode?: string;
   currentSolcVersion?: string;
+  currentCompilationHash?: string; // Hash of the last compilation, if it matches the current source
+  currentOpenzeppelinVersion?: string;
   onRestore: (sourceCode: string) => void;
 }
 
-export function VersionHistory({ open, onOpenChange, deploymentId, currentSourceCode, currentSolcVersion, onRestore }: VersionHistoryProps) {
+export function VersionHistory({ open, onOpenChange, deploymentId, currentSourceCode, currentSolcVersion, currentCompilationHash, currentOpenzeppelinVersion, onRestore }: VersionHistoryProps) {
   const [selectedVersions, setSelectedVersions] = useState<[ContractVersion | null, ContractVersion | null]>([null, null]);
   const [showDiff, setShowDiff] = useState(false);
   const [showSaveDialog, setShowSaveDialog] = useState(false);
@@ -52,7 +54,7 @@ export function VersionHistory({ open, onOpenChange, deploymentId, currentSource
   });
 
   const saveVersionMutation = useMutation({
-    mutationFn: async (data: { sourceCode: string; notes?: string; solcVersion?: string }) => {
+    mutationFn: async (data: { sourceCode: string; notes?: string; solcVersion?: string; openzeppelinVersion?: string; compilationHash?: string }) => {
       return apiRequest("POST", `/api/deployments/${deploymentId}/versions`, data);
     },
     onSuccess: () => {
@@ -113,6 +115,8 @@ export function VersionHistory({ open, onOpenChange, deploymentId, currentSource
       sourceCode: currentSourceCode,
       notes: saveNotes || undefined,
       solcVersion: currentSolcVersion,
+      openzeppelinVersion: currentOpenzeppelinVersion,
+      compilationHash: currentCompilationHash,
     });
   };
 
@@ -0,0 +1,70 @@
+import { DEFAULT_CONTRACT_SIZE_LIMITS } from "@shared/schema";
+import type { AdvancedCompilerSettings, CompiledContract, Network } from "@shared/schema";
+
+export interface SizeCheck {
+  size: number; // Bytes
+  limit: number;
+  remaining: number; // Negative when over the limit
+  exceeded: boolean;
+}
+
+export interface ContractSizeReport {
+  runtime: SizeCheck;
+  initcode: SizeCheck;
+  exceeded: boolean;
+}
+
+export type SizeSuggestionSettings = {
+  optimizationEnabled: boolean;
+  optimizationRuns: number;
+} & Pick<AdvancedCompilerSettings, "viaIR" | "revertStrings">;
+
+export function getContractSizeLimits(network: Network): { runtime: number; initcode: number } {
+  return network.contractSizeLimits ?? DEFAULT_CONTRACT_SIZE_LIMITS;
+}
+
+function checkSize(size: number, limit: number): SizeCheck {
+  return { size, limit, remaining: limit - size, exceeded: size > limit };
+}
+
+/**
+ * Compare a contract's bytecode sizes against the network's EIP-170/EIP-3860 limits.
+ * Returns null for contracts compiled before sizes were reported.
+ */
+export function getContractSizeReport(
+  contract: Pick<CompiledContract, "sizes">,
+  network: Network
+): ContractSizeReport | null {
+  if (!contract.sizes) {
+    return null;
+  }
+
+  const limits = getContractSizeLimits(network);
+  const runtime = checkSize(contract.sizes.runtime, limits.runtime);
+  const initcode = checkSize(contract.sizes.initcode, limits.initcode);
+  return { runtime, initcode, exceeded: runtime.exceeded || initcode.exceeded };
+}
+
+/**
+ * Compiler changes most likely to bring an oversized contract under the limit
+ */
+export function getSizeSuggestions(settings: SizeSuggestionSettings): string[] {
+  const suggestions: string[] = [];
+  if (!settings.optimizationEnabled) {
+    suggestions.push("Enable the optimizer");
+  } else if (settings.optimizationRuns > 200) {
+    suggestions.push("Lower optimization runs (e.g. 200 or fewer) to favour smaller bytecode");
+  }
+  if (!settings.viaIR) {
+    suggestions.push("Compile via IR, which often produces smaller bytecode");
+  }
+  if (settings.revertStrings !== "strip") {
+    suggestions.push("Strip revert strings or replace them with custom errors");
+  }
+  suggestions.push("Move logic into external libraries or split the contract");
+  return suggestions;
+}
+
+export function formatBytes(bytes: number): string {
+  return `${bytes.toLocaleString()} bytes`;
+}
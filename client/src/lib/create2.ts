@@ -0,0 +1,45 @@
+import { concat, getCreate2Address, id, Interface, keccak256, zeroPadValue } from "ethers";
+import { CREATE2_FACTORY_ADDRESS, type CompiledContract } from "@shared/schema";
+import { linkBytecode } from "./linker";
+
+/**
+ * Turn the salt a user typed into the 32 bytes CREATE2 expects. Hex up to 32 bytes
+ * is used as a number; anything else is hashed, so "v1" gives the same salt everywhere.
+ */
+export function normalizeSalt(salt: string): string {
+  const trimmed = salt.trim();
+  if (/^0x[a-fA-F0-9]{1,64}$/.test(trimmed)) {
+    const hex = trimmed.length % 2 === 0 ? trimmed : `0x0${trimmed.slice(2)}`;
+    return zeroPadValue(hex.toLowerCase(), 32);
+  }
+  return id(trimmed);
+}
+
+/**
+ * Creation code with libraries linked and constructor arguments appended. Throws
+ * when a library address is missing or an argument doesn't fit its type.
+ */
+export function getInitcode(
+  contract: Pick<CompiledContract, "abi" | "bytecode" | "linkReferences">,
+  constructorArgs: string[],
+  libraryAddresses: Record<string, string>
+): string {
+  const bytecode = linkBytecode(contract.bytecode, contract.linkReferences, libraryAddresses);
+  const encodedArgs = new Interface(contract.abi).encodeDeploy(constructorArgs);
+  return concat([bytecode.startsWith("0x") ? bytecode : `0x${bytecode}`, encodedArgs]);
+}
+
+/**
+ * Address the factory deploys the initcode to. It depends only on the factory, salt and
+ * initcode, so it's the same on every network the factory exists on.
+ */
+export function getCreate2DeploymentAddress(initcode: string, salt: string): string {
+  return getCreate2Address(CREATE2_FACTORY_ADDRESS, salt, keccak256(initcode));
+}
+
+/**
+ * Calldata for the factory: the salt followed by the initcode
+ */
+export function getCreate2DeploymentData(initcode: string, salt: string): string {
+  return concat([salt, initcode]);
+}
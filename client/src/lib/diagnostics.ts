@@ -0,0 +1,41 @@
+import type { CompilerDiagnostic } from "@shared/schema";
+
+// Minimal slice of the Monaco API used to render compiler diagnostics
+interface MonacoLike {
+  MarkerSeverity: { Error: number; Warning: number; Info: number };
+  editor: {
+    setModelMarkers(model: unknown, owner: string, markers: unknown[]): void;
+  };
+}
+
+const MARKER_OWNER = "solc";
+
+/**
+ * Render compiler diagnostics as Monaco markers on the given model.
+ * Diagnostics without a source range are skipped (they show in the problems panel only).
+ */
+export function applyDiagnosticMarkers(
+  monaco: MonacoLike,
+  model: unknown,
+  diagnostics: CompilerDiagnostic[]
+): void {
+  const markers = diagnostics
+    .filter((d) => d.startLine !== undefined)
+    .map((d) => ({
+      severity:
+        d.severity === "error"
+          ? monaco.MarkerSeverity.Error
+          : d.severity === "warning"
+            ? monaco.MarkerSeverity.Warning
+            : monaco.MarkerSeverity.Info,
+      message: d.message,
+      code: d.errorCode,
+      source: d.type,
+      startLineNumber: d.startLine!,
+      startColumn: d.startColumn ?? 1,
+      endLineNumber: d.endLine ?? d.startLine!,
+      endColumn: d.endColumn ?? (d.startColumn ?? 1) + 1,
+    }));
+
+  monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
+}
@@ -0,0 +1,19 @@
+/**
+ * Save text as a file through the browser's download prompt
+ */
+export function downloadText(fileName: string, text: string, type = "text/plain"): void {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Save a value as a pretty-printed JSON file
+ */
+export function downloadJson(fileName: string, data: unknown): void {
+  downloadText(fileName, JSON.stringify(data, null, 2), "application/json");
+}
@@ -0,0 +1,66 @@
+import type { CompiledContract, LinkReferences } from "@shared/schema";
+
+export interface RequiredLibrary {
+  key: string; // "sourceName:LibraryName", the form used for stored addresses
+  sourceName: string;
+  libraryName: string;
+}
+
+// Library addresses are remembered per network, since the same library is often reused
+const STORAGE_KEY_PREFIX = "libraryAddresses:";
+
+/**
+ * External libraries a contract's bytecode must be linked against
+ */
+export function getRequiredLibraries(contract: Pick<CompiledContract, "linkReferences">): RequiredLibrary[] {
+  return Object.entries(contract.linkReferences ?? {}).flatMap(([sourceName, libraries]) =>
+    Object.keys(libraries).map((libraryName) => ({
+      key: `${sourceName}:${libraryName}`,
+      sourceName,
+      libraryName,
+    }))
+  );
+}
+
+/**
+ * Replace library placeholders with deployed addresses. Throws if an address
+ * is missing or malformed, since unlinked bytecode can never be deployed.
+ */
+export function linkBytecode(
+  bytecode: string,
+  linkReferences: LinkReferences | undefined,
+  addresses: Record<string, string>
+): string {
+  const hasPrefix = bytecode.startsWith("0x");
+  let code = hasPrefix ? bytecode.slice(2) : bytecode;
+
+  for (const [sourceName, libraries] of Object.entries(linkReferences ?? {})) {
+    for (const [libraryName, positions] of Object.entries(libraries)) {
+      const address = addresses[`${sourceName}:${libraryName}`];
+      if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+        throw new Error(`Missing address for library ${libraryName}`);
+      }
+
+      const addressHex = address.slice(2).toLowerCase();
+      for (const { start, length } of positions) {
+        // Offsets are in bytes, the bytecode is hex
+        code = code.slice(0, start * 2) + addressHex.padStart(length * 2, "0") + code.slice((start + length) * 2);
+      }
+    }
+  }
+
+  return hasPrefix ? `0x${code}` : code;
+}
+
+export function loadLibraryAddresses(chainId: number): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(`${STORAGE_KEY_PREFIX}${chainId}`) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function saveLibraryAddress(chainId: number, key: string, address: string): void {
+  const addresses = { ...loadLibraryAddresses(chainId), [key]: address };
+  localStorage.setItem(`${STORAGE_KEY_PREFIX}${chainId}`, JSON.stringify(addresses));
+}
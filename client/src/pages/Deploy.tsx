@@ -4,6 +4,7 @@ import { CodeEditor } from "@/components/CodeEditor";
 import { FileExplorerPanel } from "@/components/FileExplorerPanel";
 import { EditorPanel } from "@/components/EditorPanel";
 import { DeploymentPanel } from "@/components/DeploymentPanel";
+import { MultiDeployDialog, type NetworkDeployOptions, type NetworkDeployResult } from "@/components/MultiDeployDialog";
 import { DeploymentHistory } from "@/components/DeploymentHistory";
 import TemplateGallery from "@/components/TemplateGallery";
 import { TemplateList } from "@/components/TemplateList";
@@ -14,22 +15,36 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { PanelLeftClose, PanelLeftOpen } from "lucide-react";
 import type {
+  AdvancedCompilerSettings,
   DeploymentState,
+  EvmVersion,
   Network,
   CompileRequest,
-  CompileResponse,
+  WorkspaceCompileRequest,
+  CompileJob,
+  CompiledContract,
+  CompilerDiagnostic,
   InsertDeployment,
+  Release,
   ContractTemplate,
+  ImportError,
+  ImportedCompilerSettings,
+  StandardJsonInput,
   WorkspaceFile,
 } from "@shared/schema";
-import { NETWORKS } from "@shared/schema";
+import { CREATE2_FACTORY_ADDRESS, NETWORKS } from "@shared/schema";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAppKit, useAppKitAccount, useAppKitNetwork } from "@reown/appkit/react";
 import { mainnet, sepolia, bsc, bscTestnet, polygon, polygonAmoy, arbitrum, arbitrumSepolia, optimism, optimismSepolia, avalanche, avalancheFuji } from "@reown/appkit/networks";
 import type { AppKitNetwork } from "@reown/appkit/networks";
 import { ContractFactory } from "ethers";
 import { useConfig, useWalletClient } from "wagmi";
+import { getAccount } from "@wagmi/core";
 import { getEthersSigner } from "@/lib/wagmi-ethers";
+import { getRequiredLibraries, linkBytecode, loadLibraryAddresses, saveLibraryAddress, type RequiredLibrary } from "@/lib/linker";
+import { getContractSizeLimits, getContractSizeReport } from "@/lib/contract-size";
+import { getCreate2DeploymentAddress, getCreate2DeploymentData } from "@/lib/create2";
+import { downloadJson } from "@/lib/download";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
 import type { ImperativePanelHandle } from "react-resizable-panels";
 
@@ -49,6 +64,10 @@ const REOWN_NETWORKS: Record<number, AppKitNetwork> = {
   43113: avalancheFuji,
 };
 
+// How often to poll a running compile job (milliseconds)
+const COMPILE_POLL_INTERVAL = 500;
+const COMPILE_CANCELLED_MESSAGE = "Compilation cancelled";
+
 const INITIAL_CODE = `// SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
@@ -79,13 +98,26 @@ export default function Deploy() {
     status: "idle",
   });
   const [templateGalleryOpen, setTemplateGalleryOpen] = useState(false);
+  const [resumeRelease, setResumeRelease] = useState<Release | null>(null); // Release reopened from the deployment history
   const [selectedWorkspace, setSelectedWorkspace] = useState<number | null>(null);
   const [leftPanelTab, setLeftPanelTab] = useState("files");
   
   // Advanced compiler options
   const [optimizationEnabled, setOptimizationEnabled] = useState(true);
   const [optimizationRuns, setOptimizationRuns] = useState(200);
-  const [evmVersion, setEvmVersion] = useState<"paris" | "shanghai" | "cancun" | "london" | "berlin" | "istanbul">("paris");
+  const [evmVersion, setEvmVersion] = useState<EvmVersion>("paris");
+  const [advancedSettings, setAdvancedSettings] = useState<AdvancedCompilerSettings>({});
+  const [openzeppelinVersion, setOpenzeppelinVersion] = useState<string | undefined>(undefined); // Undefined uses the workspace's version
+  const [extendedArtifacts, setExtendedArtifacts] = useState(false);
+
+  // Diagnostics from the most recent compilation
+  const [diagnostics, setDiagnostics] = useState<CompilerDiagnostic[]>([]);
+
+  // Source the last compilation ran on, so its hash is only used while the editor still matches
+  const [compiledCode, setCompiledCode] = useState<string | null>(null);
+
+  // Server-side compile job currently being polled
+  const [compileJob, setCompileJob] = useState<CompileJob | null>(null);
 
   // File management state
   const [openFiles, setOpenFiles] = useState<WorkspaceFile[]>([]);
@@ -211,6 +243,17 @@ export default function Deploy() {
     }
   }, [openFiles]);
 
+  // Source path the editor content is compiled as, used to match diagnostics to the editor
+  const currentSourcePath = activeFile && selectedWorkspace ? activeFile.path : "Contract.sol";
+
+  // Open a workspace file referenced by a diagnostic
+  const handleOpenPath = useCallback((path: string) => {
+    const file = allFiles.find(f => f.path === path && !f.isDirectory);
+    if (file) {
+      handleFileSelect(file);
+    }
+  }, [allFiles, handleFileSelect]);
+
   const handleFileCreate = async (path: string, isDirectory: boolean) => {
     try {
       await createFileMutation.mutateAsync({ path, isDirectory, content: '' });
@@ -292,28 +335,60 @@ export default function Deploy() {
   };
 
   const compileMutation = useMutation({
-    mutationFn: async (request: CompileRequest) => {
-      const response = await apiRequest("POST", "/api/compile", request);
-      return await response.json() as CompileResponse;
+    mutationFn: async (request: CompileRequest | WorkspaceCompileRequest) => {
+      // Workspace files are compiled server-side against the whole workspace file tree
+      const response = "entryPath" in request
+        ? await apiRequest("POST", `/api/workspaces/${selectedWorkspace}/compile/jobs`, request)
+        : await apiRequest("POST", "/api/compile/jobs", request);
+      let job = await response.json() as CompileJob;
+      setCompileJob(job);
+
+      // Poll the job until a worker has finished with it
+      try {
+        while (job.status === "queued" || job.status === "running") {
+          await new Promise(resolve => setTimeout(resolve, COMPILE_POLL_INTERVAL));
+          const pollResponse = await apiRequest("GET", `/api/compile/jobs/${job.id}`);
+          job = await pollResponse.json() as CompileJob;
+          setCompileJob(job);
+        }
+      } finally {
+        setCompileJob(null);
+      }
+
+      if (job.status === "cancelled") {
+        throw new Error(COMPILE_CANCELLED_MESSAGE);
+      }
+      return job.result ?? { success: false, error: "Compilation failed" };
     },
     onMutate: () => {
       setDeploymentState({
         status: "compiling",
       });
+      setDiagnostics([]);
     },
-    onSuccess: (data) => {
+    onSuccess: (data, request) => {
+      setDiagnostics(data.diagnostics || []);
+      const warningCount = (data.diagnostics || []).filter(d => d.severity === "warning").length;
       if (data.success && data.contract) {
         setDeploymentState({
           status: "compiled",
           compiledContract: data.contract,
+          compiledContracts: data.contracts,
+          asts: data.asts,
+          language: data.language,
+          compilationHash: data.compilationHash,
+          sourcePath: "entryPath" in request ? request.entryPath : request.fileName,
+          openzeppelinVersion: data.openzeppelinVersion,
         });
         // Store full compiler version with commit hash for verification
         if (data.compilerVersion) {
           setFullCompilerVersion(data.compilerVersion);
         }
         toast({
-          title: "Compilation successful",
-          description: `Contract ${data.contract.contractName} compiled successfully`,
+          title: data.cached ? "Compilation successful (cached)" : "Compilation successful",
+          description: warningCount > 0
+            ? `Contract ${data.contract.contractName} compiled with ${warningCount} warning${warningCount === 1 ? "" : "s"}`
+            : `Contract ${data.contract.contractName} compiled successfully`,
         });
       } else {
         setDeploymentState({
@@ -328,6 +403,13 @@ export default function Deploy() {
       }
     },
     onError: (error: Error) => {
+      if (error.message === COMPILE_CANCELLED_MESSAGE) {
+        setDeploymentState({ status: "idle" });
+        toast({
+          title: "Compilation cancelled",
+        });
+        return;
+      }
       setDeploymentState({
         status: "error",
         error: error.message,
@@ -402,14 +484,115 @@ export default function Deploy() {
     }
   };
 
-  const handleCompile = () => {
-    compileMutation.mutate({
-      sourceCode: code,
-      fileName: "Contract.sol",
+  const handleCancelCompile = () => {
+    if (compileJob) {
+      apiRequest("DELETE", `/api/compile/jobs/${compileJob.id}`).catch((error: Error) => {
+        console.error("Failed to cancel compile job:", error);
+      });
+    }
+  };
+
+  // Compile request for the editor content: a workspace file compiles against its workspace
+  const buildCompileRequest = (): CompileRequest | WorkspaceCompileRequest => {
+    const options = {
       solcVersion,
       optimizationEnabled,
       optimizationRuns,
       evmVersion,
+      openzeppelinVersion,
+      extendedArtifacts,
+      ...advancedSettings,
+    };
+
+    return activeFile && selectedWorkspace
+      ? { ...options, entryPath: activeFile.path, sourceCode: code }
+      : { ...options, sourceCode: code, fileName: "Contract.sol" };
+  };
+
+  const handleCompile = () => {
+    setCompiledCode(code);
+    compileMutation.mutate(buildCompileRequest());
+  };
+
+  const handleExportStandardJson = async () => {
+    const request = buildCompileRequest();
+    const url = "entryPath" in request
+      ? `/api/workspaces/${selectedWorkspace}/compile/standard-json`
+      : "/api/compile/standard-json";
+
+    try {
+      const response = await apiRequest("POST", url, request);
+      const result: { success: boolean; input: StandardJsonInput; importErrors: ImportError[] } = await response.json();
+      if (!result.success) {
+        toast({
+          title: "Unresolved imports",
+          description: result.importErrors.map((e) => e.message).join("\n"),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const sourcePath = "entryPath" in request ? request.entryPath : request.fileName;
+      const baseName = (sourcePath.split("/").pop() ?? sourcePath).replace(/\.\w+$/, "");
+      downloadJson(`${baseName}.standard-input.json`, result.input);
+    } catch (error: any) {
+      toast({
+        title: "Export failed",
+        description: error.message || "Failed to build standard JSON input",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Import an auditor's or external build's standard JSON input as files and compiler settings
+  const handleImportStandardJson = async (file: File) => {
+    try {
+      let input: unknown;
+      try {
+        input = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not valid JSON`);
+      }
+
+      const response = await apiRequest("POST", `/api/workspaces/${selectedWorkspace}/import-standard-json`, { input });
+      const result: {
+        created: string[];
+        updated: string[];
+        skipped: string[];
+        settings: ImportedCompilerSettings;
+      } = await response.json();
+      queryClient.invalidateQueries({ queryKey: ['/api/workspaces', selectedWorkspace, 'files'] });
+
+      const { settings } = result;
+      if (settings.optimizationEnabled !== undefined) setOptimizationEnabled(settings.optimizationEnabled);
+      if (settings.optimizationRuns !== undefined) setOptimizationRuns(settings.optimizationRuns);
+      if (settings.evmVersion) setEvmVersion(settings.evmVersion);
+      setAdvancedSettings({
+        viaIR: settings.viaIR,
+        optimizerDetails: settings.optimizerDetails,
+        metadataBytecodeHash: settings.metadataBytecodeHash,
+        appendCBOR: settings.appendCBOR,
+        revertStrings: settings.revertStrings,
+      });
+
+      toast({
+        title: "Standard JSON imported",
+        description: `${result.created.length} files created, ${result.updated.length} updated` +
+          (result.skipped.length > 0 ? `, ${result.skipped.length} skipped because they differ from the workspace` : ""),
+      });
+    } catch (error: any) {
+      toast({
+        title: "Import failed",
+        description: error.message || "Failed to import standard JSON input",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSelectContract = (contract: CompiledContract) => {
+    setDeploymentState({
+      ...deploymentState,
+      compiledContract: contract,
     });
   };
 
@@ -424,16 +607,47 @@ export default function Deploy() {
     });
   };
 
-  const handleDeploy = async (constructorArgs: string[]) => {
-    if (!deploymentState.compiledContract) {
+  // Switch the wallet to a network if needed; returns false if it couldn't be switched
+  const ensureNetwork = async (network: Network): Promise<boolean> => {
+    // Read the wallet's chain directly: while deploying to several networks in a row the
+    // rendered chainId lags behind the switches
+    if (getAccount(wagmiConfig).chainId === network.chainId) {
+      return true;
+    }
+
+    const reownNetwork = REOWN_NETWORKS[network.chainId];
+    if (!reownNetwork) {
       toast({
         variant: "destructive",
-        title: "No compiled contract",
-        description: "Please compile the contract first",
+        title: "Unsupported network",
+        description: `Please switch to ${network.name} manually in your wallet`,
       });
-      return;
+      return false;
     }
 
+    try {
+      await switchNetwork(reownNetwork);
+      toast({
+        title: "Network switched",
+        description: `Switched to ${network.name}. Ready to deploy.`,
+      });
+      // Wait a moment for the network switch to complete
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      return true;
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Network switch failed",
+        description: error.message || "Please switch to the correct network manually",
+      });
+      return false;
+    }
+  };
+
+  const ensureSelectedNetwork = () => ensureNetwork(selectedNetwork);
+
+  // Wallet connected and signed in; shows why not and returns false otherwise
+  const ensureReadyToDeploy = async (): Promise<boolean> => {
     // Ensure wallet is connected
     if (!isConnected || !address) {
       toast({
@@ -441,7 +655,7 @@ export default function Deploy() {
         title: "Wallet Not Connected",
         description: "Please connect your wallet first",
       });
-      return;
+      return false;
     }
 
     // Ensure wallet is authenticated before deployment
@@ -452,147 +666,300 @@ export default function Deploy() {
         title: "Authentication Required",
         description: "Please authenticate your wallet to deploy contracts",
       });
-      return;
+      return false;
     }
+    return true;
+  };
 
-    // Set status to deploying immediately to show loading state
-    setDeploymentState({
-      ...deploymentState,
-      status: "deploying",
-    });
+  // Deploy an external library the compiled contract links against, returning its address
+  const handleDeployLibrary = async (library: RequiredLibrary): Promise<string | null> => {
+    const compiledLibrary = deploymentState.compiledContracts?.find(
+      (c) => c.sourceName === library.sourceName && c.contractName === library.libraryName
+    );
+    if (!compiledLibrary?.bytecode) {
+      toast({
+        variant: "destructive",
+        title: "Library not found",
+        description: `${library.libraryName} was not part of the compilation output`,
+      });
+      return null;
+    }
 
-    // Ensure wallet is on the correct network BEFORE deploying
-    if (chainId !== selectedNetwork.chainId) {
-      const reownNetwork = REOWN_NETWORKS[selectedNetwork.chainId];
-      if (!reownNetwork) {
-        setDeploymentState({
-          ...deploymentState,
-          status: "compiled",
-        });
-        toast({
-          variant: "destructive",
-          title: "Unsupported network",
-          description: `Please switch to ${selectedNetwork.name} manually in your wallet`,
-        });
-        return;
-      }
-      
-      try {
-        await switchNetwork(reownNetwork);
-        toast({
-          title: "Network switched",
-          description: `Switched to ${selectedNetwork.name}. Ready to deploy.`,
-        });
-        // Wait a moment for the network switch to complete
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      } catch (error: any) {
-        setDeploymentState({
-          ...deploymentState,
-          status: "compiled",
-        });
-        toast({
-          variant: "destructive",
-          title: "Network switch failed",
-          description: error.message || "Please switch to the correct network manually",
-        });
-        return;
-      }
+    if (!isConnected || !address) {
+      toast({
+        variant: "destructive",
+        title: "Wallet Not Connected",
+        description: "Please connect your wallet first",
+      });
+      return null;
+    }
+
+    if (!(await ensureSelectedNetwork())) {
+      return null;
     }
 
     try {
+      // Libraries can link against other libraries, so link with any addresses already known
+      const bytecode = linkBytecode(
+        compiledLibrary.bytecode,
+        compiledLibrary.linkReferences,
+        loadLibraryAddresses(selectedNetwork.chainId)
+      );
 
-      // Get ethers signer from wagmi wallet client (wallet should be on correct network now)
       const signer = await getEthersSigner(wagmiConfig);
+      const libraryContract = await new ContractFactory(compiledLibrary.abi, bytecode, signer).deploy();
+      await libraryContract.waitForDeployment();
 
-      // Deploy contract using ethers ContractFactory
-      const contractFactory = new ContractFactory(
-        deploymentState.compiledContract.abi,
-        deploymentState.compiledContract.bytecode,
-        signer
-      );
+      const libraryAddress = await libraryContract.getAddress();
+      saveLibraryAddress(selectedNetwork.chainId, library.key, libraryAddress);
+      toast({
+        title: "Library deployed",
+        description: `${library.libraryName} deployed at ${libraryAddress}`,
+      });
+      return libraryAddress;
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Library deployment failed",
+        description: error.message,
+      });
+      return null;
+    }
+  };
 
-      const contract = await contractFactory.deploy(...constructorArgs);
-      await contract.waitForDeployment();
+  // Deploy the compiled contract to a network, record it and wait for it to be mined.
+  // Throws on failure; the caller checks the wallet is connected and signed in first.
+  const deployToNetwork = async (
+    network: Network,
+    constructorArgs: string[],
+    libraryAddresses: Record<string, string>,
+    { create2Salt, releaseId, onStage }: NetworkDeployOptions = {}
+  ): Promise<NetworkDeployResult> => {
+    const compiledContract = deploymentState.compiledContract;
+    if (!compiledContract || !address) {
+      throw new Error("Compile the contract and connect your wallet first");
+    }
 
-      const contractAddress = await contract.getAddress();
-      const transactionHash = contract.deploymentTransaction()?.hash || "";
+    // Oversized contracts always revert, so don't let the wallet spend gas finding that out
+    if (getContractSizeReport(compiledContract, network)?.exceeded) {
+      throw new Error(`${compiledContract.contractName} exceeds the contract size limit on ${network.name}`);
+    }
 
-      setDeploymentState({
-        ...deploymentState,
-        status: "deployed",
-        contractAddress,
-        transactionHash,
+    // The factory would be msg.sender in the constructor and end up owning the contract or its tokens
+    if (create2Salt && compiledContract.constructorUsesSender) {
+      throw new Error(`${compiledContract.contractName} reads msg.sender in its constructor, so it can't be deployed through the CREATE2 factory`);
+    }
+
+    onStage?.("switching");
+    if (!(await ensureNetwork(network))) {
+      throw new Error(`Couldn't switch the wallet to ${network.name}`);
+    }
+
+    // Get ethers signer from wagmi wallet client; fails if the wallet isn't on the network
+    const signer = await getEthersSigner(wagmiConfig, { chainId: network.chainId });
+
+    // Fill in external library addresses; unlinked placeholders make the bytecode invalid
+    const { linkReferences } = compiledContract;
+    const requiredLibraries = getRequiredLibraries(compiledContract);
+    const linkedLibraries = Object.fromEntries(
+      requiredLibraries.map((library) => [library.key, libraryAddresses[library.key]])
+    );
+    const bytecode = linkBytecode(compiledContract.bytecode, linkReferences, linkedLibraries);
+
+    // Deploy contract using ethers ContractFactory
+    const contractFactory = new ContractFactory(
+      compiledContract.abi,
+      bytecode,
+      signer
+    );
+
+    // Constructor arguments are part of the initcode too
+    const deployTransaction = await contractFactory.getDeployTransaction(...constructorArgs);
+    const initcodeSize = (deployTransaction.data.length - 2) / 2;
+    const { initcode: initcodeLimit } = getContractSizeLimits(network);
+    if (initcodeSize > initcodeLimit) {
+      throw new Error(
+        `Initcode including constructor arguments is ${initcodeSize.toLocaleString()} bytes, over the ${initcodeLimit.toLocaleString()} byte limit`
+      );
+    }
+
+    onStage?.("signing");
+    let contractAddress: string;
+    let transactionHash: string;
+    let waitForDeployment: () => Promise<unknown>;
+    if (create2Salt) {
+      // The factory creates the contract, so its address follows from the salt and initcode alone
+      contractAddress = getCreate2DeploymentAddress(deployTransaction.data, create2Salt);
+      if ((await signer.provider.getCode(CREATE2_FACTORY_ADDRESS)) === "0x") {
+        throw new Error(`The CREATE2 factory isn't deployed on ${network.name}`);
+      }
+      if ((await signer.provider.getCode(contractAddress)) !== "0x") {
+        throw new Error(`Already deployed at ${contractAddress} on ${network.name}`);
+      }
+
+      const transaction = await signer.sendTransaction({
+        to: CREATE2_FACTORY_ADDRESS,
+        data: getCreate2DeploymentData(deployTransaction.data, create2Salt),
       });
+      transactionHash = transaction.hash;
+      waitForDeployment = () => transaction.wait(); // Rejects if the factory reverts
+    } else {
+      const contract = await contractFactory.deploy(...constructorArgs);
+      contractAddress = await contract.getAddress();
+      transactionHash = contract.deploymentTransaction()?.hash || "";
+      waitForDeployment = () => contract.waitForDeployment();
+    }
 
-      const deployment: InsertDeployment = {
-        walletAddress: address, // Backend will override this from session for security
-        contractName: deploymentState.compiledContract.contractName,
-        contractAddress,
-        sourceCode: code,
-        flattenedSource: deploymentState.compiledContract.flattenedSource || null,
-        abi: deploymentState.compiledContract.abi,
-        network: selectedNetwork.id,
-        chainId: selectedNetwork.chainId,
-        txHash: transactionHash,
-        constructorArgs: constructorArgs.length > 0 ? constructorArgs : null,
-        verified: false,
-        notes: null,
-        solcVersion: fullCompilerVersion || solcVersion, // Use full version with commit hash if available
-        blockExplorerUrl: `${selectedNetwork.blockExplorer}/address/${contractAddress}`,
-        optimizationEnabled,
-        optimizationRuns,
-        evmVersion, // Store EVM version for future verification regeneration
-      };
+    // Record the deployment as soon as the transaction is sent. The server follows the
+    // transaction from here, so the deployment isn't lost if this tab is closed.
+    const deployment: InsertDeployment = {
+      walletAddress: address, // Backend will override this from session for security
+      contractName: compiledContract.contractName,
+      contractAddress,
+      sourceCode: code,
+      flattenedSource: compiledContract.flattenedSource || null,
+      abi: compiledContract.abi,
+      network: network.id,
+      chainId: network.chainId,
+      language: deploymentState.language ?? "Solidity",
+      txHash: transactionHash,
+      constructorArgs: constructorArgs.length > 0 ? constructorArgs : null,
+      verified: false,
+      notes: null,
+      solcVersion: fullCompilerVersion || solcVersion, // Use full version with commit hash if available
+      blockExplorerUrl: `${network.blockExplorer}/address/${contractAddress}`,
+      optimizationEnabled,
+      optimizationRuns,
+      evmVersion, // Store EVM version for future verification regeneration
+      viaIR: advancedSettings.viaIR ?? false,
+      optimizerDetails: advancedSettings.optimizerDetails ?? null,
+      metadataBytecodeHash: advancedSettings.metadataBytecodeHash ?? "ipfs",
+      appendCBOR: advancedSettings.appendCBOR ?? true,
+      revertStrings: advancedSettings.revertStrings ?? "default",
+      libraries: requiredLibraries.length > 0 ? linkedLibraries : null,
+      openzeppelinVersion: deploymentState.openzeppelinVersion || null,
+      compilationHash: deploymentState.compilationHash || null,
+      sourcePath: deploymentState.sourcePath ?? null,
+      create2Factory: create2Salt ? CREATE2_FACTORY_ADDRESS : null,
+      create2Salt: create2Salt ?? null,
+      releaseId: releaseId ?? null,
+    };
 
-      try {
-        const response = await apiRequest("POST", "/api/deployments", {
-          ...deployment,
-          workspaceId: selectedWorkspace, // Include workspace ID to auto-associate deployment
-        });
-        if (!response.ok) {
-          const error = await response.json();
-          
-          // Handle 401 specifically - prompt re-authentication
-          if (response.status === 401) {
-            const retryAuth = await ensureAuthenticated(address);
-            if (retryAuth) {
-              // Retry saving the deployment with workspace ID
-              const retryResponse = await apiRequest("POST", "/api/deployments", {
-                ...deployment,
-                workspaceId: selectedWorkspace,
+    try {
+      const response = await apiRequest("POST", "/api/deployments", {
+        ...deployment,
+        workspaceId: selectedWorkspace, // Include workspace ID to auto-associate deployment
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        let saved = false;
+        
+        // Handle 401 specifically - prompt re-authentication
+        if (response.status === 401) {
+          const retryAuth = await ensureAuthenticated(address);
+          if (retryAuth) {
+            // Retry saving the deployment with workspace ID
+            const retryResponse = await apiRequest("POST", "/api/deployments", {
+              ...deployment,
+              workspaceId: selectedWorkspace,
+            });
+            if (retryResponse.ok) {
+              await retryResponse.json();
+              saved = true;
+              toast({
+                title: "Deployment Saved",
+                description: "Deployment saved successfully after re-authentication",
               });
-              if (retryResponse.ok) {
-                await retryResponse.json();
-                // Invalidate both general deployments and workspace-specific deployments
-                queryClient.invalidateQueries({ queryKey: ["/api/deployments"] });
-                if (selectedWorkspace) {
-                  queryClient.invalidateQueries({ queryKey: ["/api/workspaces", selectedWorkspace, "deployments"] });
-                }
-                toast({
-                  title: "Deployment Saved",
-                  description: "Deployment saved successfully after re-authentication",
-                });
-                return;
-              }
             }
           }
-          
+        }
+        
+        if (!saved) {
           throw new Error(error.error || "Failed to save deployment");
         }
+      } else {
         await response.json();
-        // Invalidate both general deployments and workspace-specific deployments
-        queryClient.invalidateQueries({ queryKey: ["/api/deployments"] });
-        if (selectedWorkspace) {
-          queryClient.invalidateQueries({ queryKey: ["/api/workspaces", selectedWorkspace, "deployments"] });
-        }
-      } catch (error) {
-        console.error("Failed to save deployment to database:", error);
-        toast({
-          variant: "destructive",
-          title: "Warning",
-          description: "Contract deployed but failed to save to history. Please check your authentication.",
-        });
       }
+      // Invalidate both general deployments and workspace-specific deployments
+      queryClient.invalidateQueries({ queryKey: ["/api/deployments"] });
+      if (selectedWorkspace) {
+        queryClient.invalidateQueries({ queryKey: ["/api/workspaces", selectedWorkspace, "deployments"] });
+      }
+    } catch (error) {
+      console.error("Failed to save deployment to database:", error);
+      toast({
+        variant: "destructive",
+        title: "Warning",
+        description: "Deployment transaction sent but failed to save to history. Please check your authentication.",
+      });
+    }
+
+    onStage?.("confirming");
+    await waitForDeployment();
+
+    // Remember the library addresses that worked for this network
+    requiredLibraries.forEach((library) => {
+      saveLibraryAddress(network.chainId, library.key, linkedLibraries[library.key]);
+    });
+
+    return { contractAddress, transactionHash };
+  };
+
+  // create2Salt: 32-byte salt to deploy through the CREATE2 factory, for the same address on every network
+  const handleDeploy = async (constructorArgs: string[], libraryAddresses: Record<string, string> = {}, create2Salt?: string) => {
+    if (!deploymentState.compiledContract) {
+      toast({
+        variant: "destructive",
+        title: "No compiled contract",
+        description: "Please compile the contract first",
+      });
+      return;
+    }
+
+    // Oversized contracts always revert, so don't let the wallet spend gas finding that out
+    const sizeReport = getContractSizeReport(deploymentState.compiledContract, selectedNetwork);
+    if (sizeReport?.exceeded) {
+      toast({
+        variant: "destructive",
+        title: "Contract too large",
+        description: `${deploymentState.compiledContract.contractName} exceeds the contract size limit on ${selectedNetwork.name}`,
+      });
+      return;
+    }
+
+    if (!(await ensureReadyToDeploy())) {
+      return;
+    }
+
+    // Set status to deploying immediately to show loading state
+    setDeploymentState({
+      ...deploymentState,
+      status: "deploying",
+    });
+
+    // Ensure wallet is on the correct network BEFORE deploying
+    if (!(await ensureSelectedNetwork())) {
+      setDeploymentState({
+        ...deploymentState,
+        status: "compiled",
+      });
+      return;
+    }
+
+    try {
+      const { contractAddress, transactionHash } = await deployToNetwork(
+        selectedNetwork,
+        constructorArgs,
+        libraryAddresses,
+        { create2Salt }
+      );
+
+      setDeploymentState({
+        ...deploymentState,
+        status: "deployed",
+        contractAddress,
+        transactionHash,
+      });
 
       toast({
         title: "Deployment successful",
@@ -612,6 +979,19 @@ export default function Deploy() {
     }
   };
 
+  // Releases deploy the compiled contract, so the same contract has to be compiled to continue one
+  const handleResumeRelease = (release: Release) => {
+    if (deploymentState.compiledContract?.contractName !== release.contractName) {
+      toast({
+        variant: "destructive",
+        title: "Compile the release's contract first",
+        description: `Compile ${release.contractName} to continue "${release.name}"`,
+      });
+      return;
+    }
+    setResumeRelease(release);
+  };
+
   return (
     <div className="flex h-screen flex-col bg-background">
       <Header
@@ -662,6 +1042,7 @@ export default function Deploy() {
                   onFileCreate={handleFileCreate}
                   onFileDelete={handleFileDelete}
                   onFileRename={handleFileRename}
+                  onImportStandardJson={selectedWorkspace ? handleImportStandardJson : undefined}
                 />
               </TabsContent>
               <TabsContent value="templates" className="flex-1 overflow-hidden m-0">
@@ -706,6 +1087,9 @@ export default function Deploy() {
                 onFileSelect={handleFileSelect}
                 onOpenTemplates={() => setLeftPanelTab('templates')}
                 isLeftPanelCollapsed={isLeftPanelCollapsed}
+                diagnostics={diagnostics}
+                currentPath={currentSourcePath}
+                onOpenPath={handleOpenPath}
               />
             </div>
           </ResizablePanel>
@@ -719,7 +1103,11 @@ export default function Deploy() {
               selectedNetwork={selectedNetwork}
               onSelectNetwork={handleSelectNetwork}
               onCompile={handleCompile}
+              onCancelCompile={handleCancelCompile}
+              compileJob={compileJob}
               onDeploy={handleDeploy}
+              onDeployLibrary={handleDeployLibrary}
+              onSelectContract={handleSelectContract}
               walletConnected={isConnected}
               optimizationEnabled={optimizationEnabled}
               onOptimizationEnabledChange={setOptimizationEnabled}
@@ -727,6 +1115,15 @@ export default function Deploy() {
               onOptimizationRunsChange={setOptimizationRuns}
               evmVersion={evmVersion}
               onEvmVersionChange={setEvmVersion}
+              advancedSettings={advancedSettings}
+              onAdvancedSettingsChange={setAdvancedSettings}
+              openzeppelinVersion={openzeppelinVersion}
+              onOpenzeppelinVersionChange={setOpenzeppelinVersion}
+              extendedArtifacts={extendedArtifacts}
+              onExtendedArtifactsChange={setExtendedArtifacts}
+              onExportStandardJson={handleExportStandardJson}
+              onPrepareDeploy={ensureReadyToDeploy}
+              onDeployToNetwork={deployToNetwork}
             />
           </ResizablePanel>
 
@@ -740,7 +1137,10 @@ export default function Deploy() {
               onWorkspaceChange={setSelectedWorkspace}
               currentSourceCode={code}
               currentSolcVersion={solcVersion}
+              currentCompilationHash={compiledCode === code ? deploymentState.compilationHash : undefined}
+              currentOpenzeppelinVersion={compiledCode === code ? deploymentState.openzeppelinVersion : openzeppelinVersion}
               onRestoreVersion={setCode}
+              onResumeRelease={handleResumeRelease}
             />
           </ResizablePanel>
         </ResizablePanelGroup>
@@ -771,6 +1171,7 @@ export default function Deploy() {
               onOpenTemplates={() => setTemplateGalleryOpen(true)}
               workspaceId={selectedWorkspace}
               onWorkspaceChange={setSelectedWorkspace}
+              diagnostics={diagnostics.filter(d => d.sourceFile === currentSourcePath)}
             />
           </TabsContent>
           <TabsContent value="templates" className="flex-1 overflow-hidden m-0">
@@ -782,7 +1183,11 @@ export default function Deploy() {
               selectedNetwork={selectedNetwork}
               onSelectNetwork={handleSelectNetwork}
               onCompile={handleCompile}
+              onCancelCompile={handleCancelCompile}
+              compileJob={compileJob}
               onDeploy={handleDeploy}
+              onDeployLibrary={handleDeployLibrary}
+              onSelectContract={handleSelectContract}
               walletConnected={isConnected}
               optimizationEnabled={optimizationEnabled}
               onOptimizationEnabledChange={setOptimizationEnabled}
@@ -790,6 +1195,15 @@ export default function Deploy() {
               onOptimizationRunsChange={setOptimizationRuns}
               evmVersion={evmVersion}
               onEvmVersionChange={setEvmVersion}
+              advancedSettings={advancedSettings}
+              onAdvancedSettingsChange={setAdvancedSettings}
+              openzeppelinVersion={openzeppelinVersion}
+              onOpenzeppelinVersionChange={setOpenzeppelinVersion}
+              extendedArtifacts={extendedArtifacts}
+              onExtendedArtifactsChange={setExtendedArtifacts}
+              onExportStandardJson={handleExportStandardJson}
+              onPrepareDeploy={ensureReadyToDeploy}
+              onDeployToNetwork={deployToNetwork}
             />
           </TabsContent>
           <TabsContent value="history" className="flex-1 overflow-hidden m-0">
@@ -799,7 +1213,10 @@ export default function Deploy() {
               onWorkspaceChange={setSelectedWorkspace}
               currentSourceCode={code}
               currentSolcVersion={solcVersion}
+              currentCompilationHash={compiledCode === code ? deploymentState.compilationHash : undefined}
+              currentOpenzeppelinVersion={compiledCode === code ? deploymentState.openzeppelinVersion : openzeppelinVersion}
               onRestoreVersion={setCode}
+              onResumeRelease={handleResumeRelease}
             />
           </TabsContent>
         </Tabs>
@@ -810,6 +1227,18 @@ export default function Deploy() {
         onOpenChange={setTemplateGalleryOpen}
         onSelectTemplate={handleSelectTemplate}
       />
+
+      {resumeRelease && deploymentState.compiledContract && (
+        <MultiDeployDialog
+          open
+          onOpenChange={(open) => !open && setResumeRelease(null)}
+          contract={deploymentState.compiledContract}
+          defaultConstructorArgs={[]}
+          resumeRelease={resumeRelease}
+          onPrepare={ensureReadyToDeploy}
+          onDeployToNetwork={deployToNetwork}
+        />
+      )}
     </div>
   );
 }
@@ -60,6 +60,47 @@ export const config = {
     return getOptionalEnv("ETHERSCAN_API_KEY", "");
   },
 
+  /**
+   * Blockscout API Key
+   * Optional: Raises Blockscout's rate limits for networks verified through Blockscout
+   */
+  get BLOCKSCOUT_API_KEY(): string {
+    return getOptionalEnv("BLOCKSCOUT_API_KEY", "");
+  },
+
+  /**
+   * Explorer API Keys
+   * Optional: Keys for Etherscan-compatible explorers at a network's blockExplorerApiUrl,
+   * as comma-separated chainId=key pairs (e.g. "56=ABC123,1337=XYZ789")
+   */
+  get EXPLORER_API_KEYS(): Record<number, string> {
+    const keys: Record<number, string> = {};
+    for (const entry of getOptionalEnv("EXPLORER_API_KEYS", "").split(",")) {
+      const [chainId, key] = entry.split("=").map((part) => part.trim());
+      if (chainId && key && /^\d+$/.test(chainId)) {
+        keys[parseInt(chainId, 10)] = key;
+      }
+    }
+    return keys;
+  },
+
+  /**
+   * Sourcify Server URL
+   * Optional: Sourcify API used for keyless verification (default: the public server).
+   * Point it at a locally run Sourcify server for testing.
+   */
+  get SOURCIFY_SERVER_URL(): string {
+    return getOptionalEnv("SOURCIFY_SERVER_URL", "https://sourcify.dev/server").replace(/\/+$/, "");
+  },
+
+  /**
+   * Sourcify Repository URL
+   * Optional: Where Sourcify-verified sources are browsable (default: the public repository)
+   */
+  get SOURCIFY_REPO_URL(): string {
+    return getOptionalEnv("SOURCIFY_REPO_URL", "https://repo.sourcify.dev").replace(/\/+$/, "");
+  },
+
   /**
    * Reown (WalletConnect) Project ID
    * Optional: Used for server-side wallet operations if needed
@@ -87,6 +128,121 @@ export const config = {
     return getOptionalEnv("SESSION_SECRET", "dev-secret-key-change-in-production");
   },
 
+  /**
+   * Solidity Compiler Cache Directory
+   * Optional: Where downloaded soljson builds and the release list are stored
+   * 
+   * Cached compilers are checksum-verified and allow compiling without network access
+   */
+  get SOLC_CACHE_DIR(): string {
+    return getOptionalEnv("SOLC_CACHE_DIR", ".solc-cache");
+  },
+
+  /**
+   * Solidity Compiler Pre-warm Versions
+   * Optional: Comma-separated versions downloaded by `npm run solc:prewarm`
+   * Example: 0.8.30,0.8.24,0.8.20
+   */
+  get SOLC_PREWARM_VERSIONS(): string[] {
+    return getOptionalEnv("SOLC_PREWARM_VERSIONS", "")
+      .split(",")
+      .map((v) => v.trim())
+      .filter(Boolean);
+  },
+
+  /**
+   * Solidity Import Remappings
+   * Optional: Comma-separated remappings applied to every compilation, in solc syntax
+   * Example: @solmate/=solmate/src/,forge-std/=forge-std/src/
+   */
+  get SOLC_REMAPPINGS(): string[] {
+    return getOptionalEnv("SOLC_REMAPPINGS", "")
+      .split(",")
+      .map((r) => r.trim())
+      .filter(Boolean);
+  },
+
+  /**
+   * Package Store Directory
+   * Optional: Where Solidity package files fetched from npm are vendored for offline use
+   */
+  get PACKAGE_STORE_DIR(): string {
+    return getOptionalEnv("PACKAGE_STORE_DIR", ".package-store");
+  },
+
+  /**
+   * Package CDN URL
+   * Optional: npm CDN used to fetch Solidity packages (default: jsDelivr)
+   */
+  get PACKAGE_CDN_URL(): string {
+    return getOptionalEnv("PACKAGE_CDN_URL", "https://cdn.jsdelivr.net/npm");
+  },
+
+  /**
+   * Compiler Worker Threads
+   * Optional: Number of worker threads that run solc (default: 2)
+   * 
+   * Each worker keeps its loaded compilers in memory, so raise this with care
+   */
+  get COMPILE_WORKERS(): number {
+    return Math.max(1, parseInt(getOptionalEnv("COMPILE_WORKERS", "2"), 10));
+  },
+
+  /**
+   * Compile Queue Limit
+   * Optional: Maximum number of compilations waiting for a free worker (default: 20)
+   */
+  get COMPILE_QUEUE_LIMIT(): number {
+    return parseInt(getOptionalEnv("COMPILE_QUEUE_LIMIT", "20"), 10);
+  },
+
+  /**
+   * Compile Timeout
+   * Optional: Milliseconds a single compilation may run before its worker is stopped (default: 120000)
+   */
+  get COMPILE_TIMEOUT_MS(): number {
+    return parseInt(getOptionalEnv("COMPILE_TIMEOUT_MS", "120000"), 10);
+  },
+
+  /**
+   * Compilation Cache TTL
+   * Optional: Days an unused compilation cache entry is kept (default: 30)
+   * 
+   * Entries referenced by a deployment or contract version are never evicted
+   */
+  get COMPILATION_CACHE_TTL_DAYS(): number {
+    return Math.max(1, parseInt(getOptionalEnv("COMPILATION_CACHE_TTL_DAYS", "30"), 10));
+  },
+
+  /**
+   * Vyper Compiler Path
+   * Optional: Vyper executable used for .vy files (default: "vyper" on PATH)
+   */
+  get VYPER_PATH(): string {
+    return getOptionalEnv("VYPER_PATH", "vyper");
+  },
+
+  /**
+   * Admin Wallets
+   * Optional: Comma-separated wallet addresses allowed to use /api/admin endpoints
+   */
+  get ADMIN_WALLETS(): string[] {
+    return getOptionalEnv("ADMIN_WALLETS", "")
+      .split(",")
+      .map((a) => a.trim().toLowerCase())
+      .filter(Boolean);
+  },
+
+  /**
+   * Deployment Confirmations
+   * Optional: Blocks a deployment transaction must be buried under before it counts as confirmed (default: 5)
+   * 
+   * Until then the deployment watcher keeps checking it for reorgs
+   */
+  get DEPLOYMENT_CONFIRMATIONS(): number {
+    return Math.max(1, parseInt(getOptionalEnv("DEPLOYMENT_CONFIRMATIONS", "5"), 10));
+  },
+
   /**
    * Server Port
    */
@@ -14,11 +14,24 @@ module.exports = {
       DATABASE_URL: process.env.DATABASE_URL,
       SESSION_SECRET: process.env.SESSION_SECRET,
       ETHERSCAN_API_KEY: process.env.ETHERSCAN_API_KEY,
+      BLOCKSCOUT_API_KEY: process.env.BLOCKSCOUT_API_KEY,
+      EXPLORER_API_KEYS: process.env.EXPLORER_API_KEYS,
+      SOURCIFY_SERVER_URL: process.env.SOURCIFY_SERVER_URL,
+      SOURCIFY_REPO_URL: process.env.SOURCIFY_REPO_URL,
       BSCSCAN_API_KEY: process.env.BSCSCAN_API_KEY,
       POLYGONSCAN_API_KEY: process.env.POLYGONSCAN_API_KEY,
       ALLOWED_ORIGINS: process.env.ALLOWED_ORIGINS,
       SECURE_COOKIES: process.env.SECURE_COOKIES,
-      COOKIE_DOMAIN: process.env.COOKIE_DOMAIN
+      COOKIE_DOMAIN: process.env.COOKIE_DOMAIN,
+      SOLC_CACHE_DIR: process.env.SOLC_CACHE_DIR,
+      SOLC_PREWARM_VERSIONS: process.env.SOLC_PREWARM_VERSIONS,
+      COMPILE_WORKERS: process.env.COMPILE_WORKERS,
+      COMPILE_QUEUE_LIMIT: process.env.COMPILE_QUEUE_LIMIT,
+      COMPILE_TIMEOUT_MS: process.env.COMPILE_TIMEOUT_MS,
+      COMPILATION_CACHE_TTL_DAYS: process.env.COMPILATION_CACHE_TTL_DAYS,
+      VYPER_PATH: process.env.VYPER_PATH,
+      DEPLOYMENT_CONFIRMATIONS: process.env.DEPLOYMENT_CONFIRMATIONS,
+      ADMIN_WALLETS: process.env.ADMIN_WALLETS
     },
     
     error_file: './logs/pm2-error.log',
@@ -0,0 +1,32 @@
+#!/usr/bin/env tsx
+
+/**
+ * Solidity Compiler Pre-warm Script
+ * Downloads and checksum-verifies compiler builds into SOLC_CACHE_DIR so
+ * compilation keeps working without network access
+ *
+ * Usage:
+ *   npm run solc:prewarm                 # versions from SOLC_PREWARM_VERSIONS
+ *   npm run solc:prewarm -- 0.8.30 0.8.20
+ */
+
+import { config } from "../config";
+import { prewarmSolcVersions } from "../server/solc-cache";
+
+const versions = process.argv.slice(2).length > 0
+  ? process.argv.slice(2)
+  : config.SOLC_PREWARM_VERSIONS;
+
+if (versions.length === 0) {
+  console.error("No versions to pre-warm. Set SOLC_PREWARM_VERSIONS or pass versions as arguments.");
+  process.exit(1);
+}
+
+console.log(`Pre-warming Solidity compilers into ${config.SOLC_CACHE_DIR}: ${versions.join(", ")}`);
+
+const { installed, failed } = await prewarmSolcVersions(versions);
+
+installed.forEach((version) => console.log(`✓ ${version}`));
+failed.forEach(({ version, error }) => console.error(`✗ ${version} - ${error}`));
+
+process.exit(failed.length > 0 ? 1 : 0);
@@ -0,0 +1,181 @@
+import type { Network, VerificationProviderName } from "@shared/schema";
+import { config } from "../config";
+import { EtherscanVerifier } from "./etherscan-verifier";
+import type { VerificationPayload, VerificationProvider, VerificationStatus, VerificationSubmission } from "./verification-provider";
+
+// API v2 never reports a failed Vyper verification, so one still unverified after this long was rejected (10 minutes)
+const VYPER_VERIFICATION_TIMEOUT = 10 * 60 * 1000;
+
+// Guid of an API v2 submission: "<address>@<submitted at, ms>". Older ones are just the address.
+const V2_GUID = /^(0x[a-fA-F0-9]{40})(?:@(\d+))?$/;
+
+/**
+ * Blockscout's Etherscan-compatible API at the instance's /api endpoint. Unlike API v2
+ * it hands out verification guids and reports why a verification failed.
+ */
+class BlockscoutRpcVerifier extends EtherscanVerifier {
+  readonly name: VerificationProviderName = 'blockscout';
+
+  constructor(private readonly getInstanceUrl: (network: Network) => string) {
+    super();
+  }
+
+  protected getApiKey(network: Network): string | null {
+    return config.BLOCKSCOUT_API_KEY || null;
+  }
+
+  protected getApiUrl(network: Network): string | null {
+    return `${this.getInstanceUrl(network)}/api`;
+  }
+
+  protected getConfigurationError(network: Network): string | null {
+    return null;
+  }
+}
+
+/**
+ * Blockscout, served by the explorer instance itself. Solidity goes through its
+ * Etherscan-compatible API. Vyper standard JSON is only accepted by API v2, which has
+ * no verification job IDs, so the contract address doubles as the guid there and
+ * status checks read the contract's verification flags.
+ */
+export class BlockscoutVerifier implements VerificationProvider {
+  readonly name: VerificationProviderName = 'blockscout';
+  private readonly rpc = new BlockscoutRpcVerifier((network) => this.getInstanceUrl(network));
+
+  // blockExplorerApiUrl usually points at the Etherscan-compatible "/api" endpoint
+  private getInstanceUrl(network: Network): string {
+    return (network.blockExplorerApiUrl ?? network.blockExplorer).replace(/\/+$/, '').replace(/\/api$/, '');
+  }
+
+  isConfigured(network: Network): boolean {
+    return Boolean(network.blockExplorerApiUrl ?? network.blockExplorer);
+  }
+
+  getContractUrl(network: Network, address: string): string {
+    return `${network.blockExplorer}/address/${address}?tab=contract`;
+  }
+
+  private withApiKey(url: string): string {
+    return config.BLOCKSCOUT_API_KEY ? `${url}?apikey=${encodeURIComponent(config.BLOCKSCOUT_API_KEY)}` : url;
+  }
+
+  async verifyContract(payload: VerificationPayload, network: Network): Promise<VerificationSubmission> {
+    if (payload.language !== 'Vyper') {
+      return this.rpc.verifyContract(payload, network);
+    }
+
+    const input = payload.standardJsonInput;
+    if (!input) {
+      return {
+        success: false,
+        message: 'Blockscout needs the standard JSON input a Vyper contract was compiled from',
+      };
+    }
+
+    try {
+      // Blockscout lists Vyper releases with a "v" prefix (e.g. "v0.4.0")
+      const compilerVersion = `v${payload.compilerVersion.replace(/^vyper:/, '')}`;
+      const form = new FormData();
+      form.append('compiler_version', compilerVersion);
+      form.append('contract_name', payload.contractName);
+      form.append('files[0]', new Blob([JSON.stringify(input)], { type: 'application/json' }), 'input.json');
+      form.append('license_type', 'none');
+      if (payload.constructorArguments) {
+        form.append('autodetect_constructor_args', 'false');
+        form.append('constructor_args', payload.constructorArguments);
+      } else {
+        form.append('autodetect_constructor_args', 'true');
+      }
+
+      console.log('[Blockscout API] Verification request:', {
+        chainId: network.chainId,
+        contractAddress: payload.contractAddress,
+        contractName: payload.contractName,
+        format: 'vyper-standard-input',
+      });
+
+      const url = `${this.getInstanceUrl(network)}/api/v2/smart-contracts/${payload.contractAddress}/verification/via/vyper-standard-input`;
+      const response = await fetch(this.withApiKey(url), { method: 'POST', body: form });
+      const data = await response.json().catch(() => ({}));
+
+      console.log('[Blockscout API] Verification response:', JSON.stringify(data, null, 2));
+
+      if (!response.ok) {
+        return {
+          success: false,
+          message: data.message || `Blockscout returned HTTP ${response.status}`,
+          response: data,
+        };
+      }
+
+      return {
+        success: true,
+        message: data.message || 'Contract verification submitted to Blockscout',
+        guid: `${payload.contractAddress}@${Date.now()}`,
+        response: data,
+      };
+    } catch (error) {
+      console.error('Blockscout verification error:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
+  async checkVerificationStatus(guid: string, network: Network): Promise<VerificationStatus> {
+    const v2Submission = guid.match(V2_GUID);
+    if (!v2Submission) {
+      return this.rpc.checkVerificationStatus(guid, network);
+    }
+
+    const [, contractAddress, submittedAt] = v2Submission;
+    try {
+      console.log('[Blockscout API] Status check request:', { chainId: network.chainId, contractAddress });
+
+      const response = await fetch(this.withApiKey(`${this.getInstanceUrl(network)}/api/v2/smart-contracts/${contractAddress}`));
+      const data = await response.json().catch(() => ({}));
+
+      // Blockscout answers 404 until the contract has any verified source
+      if (response.status === 404 || (response.ok && !data.is_verified)) {
+        if (submittedAt && Date.now() - Number(submittedAt) > VYPER_VERIFICATION_TIMEOUT) {
+          return {
+            success: false,
+            status: `Fail - Blockscout did not verify the contract within ${VYPER_VERIFICATION_TIMEOUT / 60000} minutes`,
+            response: data,
+          };
+        }
+        return { success: false, status: 'Pending in queue', response: data };
+      }
+      // Rate limits and outages say nothing about the verification; without a response
+      // the poller checks again after its backoff
+      if (response.status === 429 || response.status >= 500) {
+        return {
+          success: false,
+          status: `Failed to check status: Blockscout returned HTTP ${response.status}`,
+        };
+      }
+      if (!response.ok) {
+        return {
+          success: false,
+          status: data.message || `Blockscout returned HTTP ${response.status}`,
+          response: data,
+        };
+      }
+
+      return {
+        success: true,
+        status: data.is_partially_verified ? 'Pass - Verified (partial match)' : 'Pass - Verified',
+        matchType: data.is_partially_verified ? 'partial' : 'full',
+        response: data,
+      };
+    } catch (error) {
+      console.error('Blockscout status check error:', error);
+      return {
+        success: false,
+        status: 'Failed to check status',
+      };
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { JsonRpcProvider } from "ethers";
+import { NETWORKS, type BytecodeMatchResult, type Deployment, type StandardJsonInput } from "@shared/schema";
+import { compileStandardJson } from "./compiler";
+import { loadDeploymentStandardJson } from "./deployment-sources";
+
+// Outputs the comparison needs from every Solidity contract
+const SOLIDITY_RUNTIME_OUTPUTS = [
+  "evm.deployedBytecode.object",
+  "evm.deployedBytecode.immutableReferences",
+  "evm.deployedBytecode.linkReferences",
+];
+
+interface ByteRange {
+  start: number;
+  length: number;
+}
+
+export interface BytecodeMatch {
+  result: BytecodeMatchResult;
+  message: string;
+}
+
+// Library runtime code starts with PUSH20 <own address> for call protection; solc leaves it zero
+const LIBRARY_ADDRESS_RANGE: ByteRange = { start: 1, length: 20 };
+
+// Overwrite byte ranges of a hex string (no 0x prefix) with zeros
+function maskRanges(code: string, ranges: ByteRange[]): string {
+  let masked = code;
+  for (const { start, length } of ranges) {
+    masked = masked.slice(0, start * 2) + "0".repeat(length * 2) + masked.slice((start + length) * 2);
+  }
+  return masked;
+}
+
+// Write an address into a byte range of a hex string (no 0x prefix)
+function writeAddress(code: string, { start, length }: ByteRange, address: string): string {
+  const hex = address.replace(/^0x/, "").toLowerCase().padStart(length * 2, "0");
+  return code.slice(0, start * 2) + hex + code.slice((start + length) * 2);
+}
+
+// Split off the CBOR metadata solc appends to runtime code: a CBOR map followed by its
+// length as two big-endian bytes. Code without a plausible trailer is returned whole.
+function splitMetadata(code: string): { code: string; metadata: string } {
+  const length = parseInt(code.slice(-4), 16);
+  const trailerLength = (length + 2) * 2;
+  if (!length || trailerLength > code.length) {
+    return { code, metadata: "" };
+  }
+
+  const metadata = code.slice(-trailerLength);
+  if (!/^a[1-9a-f]/.test(metadata)) { // CBOR map header with 1-15 entries
+    return { code, metadata: "" };
+  }
+  return { code: code.slice(0, -trailerLength), metadata };
+}
+
+// Split off the CBOR metadata Vyper appends to runtime code: a map ({"vyper": [0, 3, x]})
+// until 0.3.10 and an array since, with a length suffix that counts itself since 0.3.10
+function splitVyperMetadata(code: string): { code: string; metadata: string } {
+  const length = parseInt(code.slice(-4), 16);
+  for (const trailerLength of [(length + 2) * 2, length * 2]) {
+    const metadata = code.slice(-trailerLength);
+    if (length && trailerLength <= code.length && /^[a8][1-9a-f]/.test(metadata)) { // CBOR map or array header
+      return { code: code.slice(0, -trailerLength), metadata };
+    }
+  }
+  return { code, metadata: "" };
+}
+
+/**
+ * Checks a deployment record against the chain without any explorer: recompiles the
+ * stored source with the stored settings and compares the runtime bytecode with the
+ * code at contractAddress. Immutable values, which only exist on chain, are masked out,
+ * and libraries get their own address written into their call protection.
+ */
+export class BytecodeMatcher {
+  async match(deployment: Deployment): Promise<BytecodeMatch> {
+    const network = NETWORKS.find((n) => n.chainId === deployment.chainId);
+    if (!network) {
+      throw new Error(`Network not found for chain ID ${deployment.chainId}`);
+    }
+
+    const rpc = new JsonRpcProvider(network.rpcUrl, deployment.chainId);
+    let onChain: string;
+    try {
+      onChain = (await rpc.getCode(deployment.contractAddress)).slice(2).toLowerCase();
+    } finally {
+      rpc.destroy();
+    }
+    if (!onChain) {
+      return { result: "mismatch", message: `No contract code at ${deployment.contractAddress} on ${network.name}` };
+    }
+
+    const standardJson = await loadDeploymentStandardJson(deployment);
+    if (!standardJson) {
+      throw new Error("The standard JSON input this deployment was compiled from can't be recovered");
+    }
+
+    const isVyper = standardJson.input.language === "Vyper";
+    const input = isVyper ? standardJson.input : this.withRuntimeOutputs(standardJson.input);
+    const output = await compileStandardJson(input, deployment.solcVersion || "0.8.20");
+
+    const errors = (output.errors || []).filter((err: any) => err.severity === "error");
+    if (errors.length > 0) {
+      throw new Error(`Recompilation failed: ${errors.map((e: any) => e.formattedMessage || e.message).join("\n")}`);
+    }
+
+    const contracts = output.contracts ?? {};
+    const sourceName = standardJson.sourceName ?? Object.keys(contracts).find(
+      (name) => contracts[name][deployment.contractName]?.evm?.deployedBytecode?.object
+    );
+    const deployedBytecode = sourceName ? contracts[sourceName][deployment.contractName]?.evm?.deployedBytecode : undefined;
+    if (!deployedBytecode?.object) {
+      throw new Error(`Contract ${deployment.contractName} not found in the compiler output`);
+    }
+    const compiled = (deployedBytecode.object as string).replace(/^0x/, "").toLowerCase();
+
+    // Vyper appends immutable values after the runtime code instead of patching them in,
+    // so only the on-chain code's prefix is compared
+    if (isVyper) {
+      const actual = onChain.slice(0, compiled.length);
+      if (actual === compiled) {
+        return { result: "exact", message: "On-chain runtime bytecode matches the recompiled source, metadata included" };
+      }
+      if (splitVyperMetadata(compiled).code === splitVyperMetadata(actual).code) {
+        return { result: "metadata", message: "On-chain runtime bytecode matches apart from the metadata trailer" };
+      }
+      return { result: "mismatch", message: "On-chain runtime bytecode differs from the recompiled source" };
+    }
+
+    const { linked: withLibraries, unlinkedRanges } = this.linkLibraries(compiled, deployedBytecode.linkReferences ?? {}, deployment);
+    // A library's own address is pushed in when it is deployed, so expect the deployment's
+    const linked = this.isLibrary(output, sourceName!, deployment.contractName)
+      ? writeAddress(withLibraries, LIBRARY_ADDRESS_RANGE, deployment.contractAddress)
+      : withLibraries;
+    const immutableRanges = Object.values(deployedBytecode.immutableReferences ?? {}).flat() as ByteRange[];
+    const masked = [...immutableRanges, ...unlinkedRanges];
+    const expected = maskRanges(linked, masked);
+    const actual = maskRanges(onChain, masked);
+
+    if (expected === actual) {
+      return { result: "exact", message: "On-chain runtime bytecode matches the recompiled source, metadata included" };
+    }
+    if (splitMetadata(expected).code === splitMetadata(actual).code) {
+      return {
+        result: "metadata",
+        message: "On-chain runtime bytecode matches apart from the metadata hash (comments, file names or formatting differ)",
+      };
+    }
+    return { result: "mismatch", message: "On-chain runtime bytecode differs from the recompiled source" };
+  }
+
+  private isLibrary(output: any, sourceName: string, contractName: string): boolean {
+    return (output.sources?.[sourceName]?.ast?.nodes ?? []).some(
+      (node: any) => node.nodeType === "ContractDefinition" && node.name === contractName && node.contractKind === "library"
+    );
+  }
+
+  // The deployment's input, asking for the runtime outputs the comparison needs
+  private withRuntimeOutputs(input: StandardJsonInput): StandardJsonInput {
+    const outputSelection = input.settings?.outputSelection ?? {};
+    const contractOutputs: string[] = outputSelection["*"]?.["*"] ?? [];
+    const missing = SOLIDITY_RUNTIME_OUTPUTS.filter((output) => !contractOutputs.includes(output));
+    if (missing.length === 0) {
+      return input; // Same input as at deploy time, so the cached output is reused
+    }
+
+    return {
+      ...input,
+      settings: {
+        ...input.settings,
+        outputSelection: {
+          ...outputSelection,
+          "*": { ...outputSelection["*"], "*": [...contractOutputs, ...missing] },
+        },
+      },
+    };
+  }
+
+  // Write the deployment's library addresses into the placeholders; libraries it has
+  // no address for are returned so they can be masked instead
+  private linkLibraries(
+    code: string,
+    linkReferences: Record<string, Record<string, ByteRange[]>>,
+    deployment: Deployment
+  ): { linked: string; unlinkedRanges: ByteRange[] } {
+    const libraries = (deployment.libraries ?? {}) as Record<string, string>;
+    let linked = code;
+    const unlinkedRanges: ByteRange[] = [];
+
+    for (const [sourceName, references] of Object.entries(linkReferences)) {
+      for (const [libraryName, ranges] of Object.entries(references)) {
+        const address = libraries[`${sourceName}:${libraryName}`];
+        if (!address) {
+          unlinkedRanges.push(...ranges);
+          continue;
+        }
+        for (const range of ranges) {
+          linked = writeAddress(linked, range, address);
+        }
+      }
+    }
+
+    return { linked, unlinkedRanges };
+  }
+}
+
+export const bytecodeMatcher = new BytecodeMatcher();
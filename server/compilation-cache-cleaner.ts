@@ -0,0 +1,48 @@
+import { config } from "../config";
+import { storage } from "./storage";
+
+// How often stale compilation cache entries are evicted (1 hour)
+const CLEAN_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Keeps compilation_cache from growing without bound by evicting entries nobody has
+ * compiled for COMPILATION_CACHE_TTL_DAYS. Entries a deployment or contract version
+ * still references stay, since verification rebuilds its input from them.
+ */
+export class CompilationCacheCleaner {
+  private intervalId: NodeJS.Timeout | null = null;
+
+  start(): void {
+    if (this.intervalId) {
+      console.warn('Compilation cache cleaner is already running');
+      return;
+    }
+
+    this.clean();
+    this.intervalId = setInterval(() => this.clean(), CLEAN_INTERVAL);
+
+    console.log(`Compilation cache cleaner started. Evicting entries unused for ${config.COMPILATION_CACHE_TTL_DAYS} days`);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      console.log('Compilation cache cleaner stopped');
+    }
+  }
+
+  private async clean(): Promise<void> {
+    try {
+      const unusedSince = new Date(Date.now() - config.COMPILATION_CACHE_TTL_DAYS * 24 * 60 * 60 * 1000);
+      const evicted = await storage.evictCompilations(unusedSince);
+      if (evicted > 0) {
+        console.log(`[Compilation Cache] Evicted ${evicted} entries unused since ${unusedSince.toISOString()}`);
+      }
+    } catch (error) {
+      console.error('Failed to evict compilation cache entries:', error);
+    }
+  }
+}
+
+export const compilationCacheCleaner = new CompilationCacheCleaner();
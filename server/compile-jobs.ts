@@ -0,0 +1,114 @@
+import { randomUUID } from "crypto";
+import type { CompileJob, CompileResponse } from "@shared/schema";
+import { config } from "../config";
+import { compilePool, type CompileTaskOptions } from "./compile-pool.js";
+
+// Finished jobs are kept this long so the client can pick up the result (10 minutes)
+const JOB_TTL = 10 * 60 * 1000;
+
+interface JobEntry {
+  job: CompileJob;
+  ownerAddress: string | null; // Wallet that submitted the job, null for anonymous compiles
+  controller: AbortController;
+}
+
+type CompileRunner = (options: CompileTaskOptions) => Promise<CompileResponse>;
+
+export class CompileJobManager {
+  private jobs = new Map<string, JobEntry>();
+
+  /**
+   * Whether another job fits. Jobs count from the moment they're submitted, so ones still
+   * resolving remote imports hold their place before they reach the compile pool's queue.
+   */
+  canAccept(): boolean {
+    const unfinished = Array.from(this.jobs.values()).filter(
+      (entry) => entry.job.status === "queued" || entry.job.status === "running"
+    ).length;
+    return unfinished < config.COMPILE_WORKERS + config.COMPILE_QUEUE_LIMIT && compilePool.canAccept();
+  }
+
+  /**
+   * Start a compilation in the background and return its job immediately
+   */
+  submit(run: CompileRunner, ownerAddress: string | null = null): CompileJob {
+    const entry: JobEntry = {
+      job: {
+        id: randomUUID(),
+        status: "queued",
+        createdAt: new Date().toISOString(),
+      },
+      ownerAddress: ownerAddress?.toLowerCase() ?? null,
+      controller: new AbortController(),
+    };
+    this.jobs.set(entry.job.id, entry);
+
+    run({
+      signal: entry.controller.signal,
+      onStart: () => {
+        entry.job.status = "running";
+        entry.job.startedAt = new Date().toISOString();
+      },
+    })
+      .then((result) => {
+        entry.job.status = entry.controller.signal.aborted ? "cancelled" : "completed";
+        entry.job.result = result;
+      })
+      .catch((error: any) => {
+        entry.job.status = entry.controller.signal.aborted ? "cancelled" : "failed";
+        entry.job.result = { success: false, error: error.message || "Unknown compilation error" };
+      })
+      .finally(() => {
+        entry.job.finishedAt = new Date().toISOString();
+        // Nobody may ever poll for the result, so don't wait for the next submission to clean up
+        setTimeout(() => this.jobs.delete(entry.job.id), JOB_TTL).unref();
+      });
+
+    return this.snapshot(entry);
+  }
+
+  /**
+   * Look up a job; jobs submitted by a wallet are only visible to that wallet
+   */
+  get(id: string, walletAddress?: string): CompileJob | undefined {
+    const entry = this.getEntry(id, walletAddress);
+    return entry ? this.snapshot(entry) : undefined;
+  }
+
+  /**
+   * Cancel a queued or running job. Returns the job, or undefined if it doesn't exist.
+   */
+  cancel(id: string, walletAddress?: string): CompileJob | undefined {
+    const entry = this.getEntry(id, walletAddress);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.job.status === "queued" || entry.job.status === "running") {
+      entry.controller.abort();
+    }
+    return this.snapshot(entry);
+  }
+
+  private getEntry(id: string, walletAddress?: string): JobEntry | undefined {
+    const entry = this.jobs.get(id);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.ownerAddress && entry.ownerAddress !== walletAddress?.toLowerCase()) {
+      return undefined;
+    }
+    return entry;
+  }
+
+  private snapshot(entry: JobEntry): CompileJob {
+    if (entry.job.status !== "queued") {
+      return { ...entry.job };
+    }
+
+    const queuedJobs = Array.from(this.jobs.values()).filter((e) => e.job.status === "queued");
+    return { ...entry.job, queuePosition: queuedJobs.indexOf(entry) + 1 };
+  }
+}
+
+export const compileJobs = new CompileJobManager();
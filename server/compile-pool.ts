@@ -0,0 +1,206 @@
+import { Worker } from "worker_threads";
+import { config } from "../config";
+import type { CompileWorkerResponse } from "./compile-worker.js";
+
+// The worker runs from source under tsx in development and from dist/compile-worker.js in production
+const RUNNING_FROM_SOURCE = import.meta.url.endsWith(".ts");
+const WORKER_URL = new URL(
+  RUNNING_FROM_SOURCE ? "./compile-worker.ts" : "./compile-worker.js",
+  import.meta.url
+);
+
+function createWorker(): Worker {
+  if (!RUNNING_FROM_SOURCE) {
+    return new Worker(WORKER_URL);
+  }
+  // Worker threads don't inherit the tsx loader, so register it before importing the TypeScript entry
+  return new Worker(
+    `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(WORKER_URL.href)}); });`,
+    { eval: true }
+  );
+}
+
+export interface CompileTaskOptions {
+  signal?: AbortSignal;
+  onStart?: () => void; // Called when a worker picks the task up
+}
+
+interface CompileTask {
+  version: string;
+  input: string;
+  external?: () => Promise<unknown>; // Runs outside the worker threads instead of posting version/input
+  options: CompileTaskOptions;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: CompileTask | null;
+  timeout: NodeJS.Timeout | null;
+}
+
+export class CompilePool {
+  private workers: PoolWorker[] = [];
+  private queue: CompileTask[] = [];
+  private externalCount = 0;
+
+  get queueLength(): number {
+    return this.queue.length;
+  }
+
+  get activeCount(): number {
+    return this.workers.filter((w) => w.task).length + this.externalCount;
+  }
+
+  canAccept(): boolean {
+    return this.queue.length < config.COMPILE_QUEUE_LIMIT;
+  }
+
+  /**
+   * Run a standard JSON compilation on a worker thread. Resolves with solc's
+   * raw JSON output; rejects on queue overflow, timeout or cancellation.
+   */
+  compile(
+    version: string,
+    input: string,
+    options: CompileTaskOptions = {}
+  ): Promise<{ output: string; fullVersion: string }> {
+    return this.enqueue({ version, input }, options);
+  }
+
+  /**
+   * Run a compilation that happens outside the worker threads (e.g. the Vyper executable)
+   * under the same concurrency and queue limits. The runner handles the task's signal and
+   * the compile timeout itself once started.
+   */
+  run<T>(runner: () => Promise<T>, options: CompileTaskOptions = {}): Promise<T> {
+    return this.enqueue({ version: "", input: "", external: runner }, options);
+  }
+
+  private enqueue<T>(work: Pick<CompileTask, "version" | "input" | "external">, options: CompileTaskOptions): Promise<T> {
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new Error("Compilation cancelled"));
+        return;
+      }
+      if (!this.canAccept()) {
+        reject(new Error("Compiler queue is full, please try again shortly"));
+        return;
+      }
+
+      const task: CompileTask = { ...work, options, resolve, reject };
+      options.signal?.addEventListener("abort", () => this.cancel(task), { once: true });
+
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  private cancel(task: CompileTask): void {
+    const queuedIndex = this.queue.indexOf(task);
+    if (queuedIndex !== -1) {
+      this.queue.splice(queuedIndex, 1);
+      task.reject(new Error("Compilation cancelled"));
+      return;
+    }
+
+    // solc runs synchronously inside the worker, so stopping the thread is the only way to interrupt it
+    const running = this.workers.find((w) => w.task === task);
+    if (running) {
+      this.discardWorker(running, new Error("Compilation cancelled"));
+    }
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      // External compilations take up a slot without a worker thread
+      if (this.activeCount >= config.COMPILE_WORKERS) {
+        return;
+      }
+
+      const task = this.queue.shift()!;
+      if (task.external) {
+        this.runExternal(task);
+        continue;
+      }
+
+      const poolWorker = this.workers.find((w) => !w.task) ?? this.spawnWorker();
+      poolWorker.task = task;
+      poolWorker.timeout = setTimeout(() => {
+        this.discardWorker(
+          poolWorker,
+          new Error(`Compilation timed out after ${Math.round(config.COMPILE_TIMEOUT_MS / 1000)}s`)
+        );
+      }, config.COMPILE_TIMEOUT_MS);
+
+      task.options.onStart?.();
+      poolWorker.worker.postMessage({ version: task.version, input: task.input });
+    }
+  }
+
+  private runExternal(task: CompileTask): void {
+    this.externalCount++;
+    task.options.onStart?.();
+    task.external!()
+      .then(task.resolve, task.reject)
+      .finally(() => {
+        this.externalCount--;
+        this.dispatch();
+      });
+  }
+
+  private spawnWorker(): PoolWorker {
+    const poolWorker: PoolWorker = {
+      worker: createWorker(),
+      task: null,
+      timeout: null,
+    };
+
+    poolWorker.worker.on("message", (response: CompileWorkerResponse) => {
+      const task = poolWorker.task;
+      this.releaseWorker(poolWorker);
+      if (task) {
+        if (response.ok) {
+          task.resolve({ output: response.output, fullVersion: response.fullVersion });
+        } else {
+          task.reject(new Error(response.error));
+        }
+      }
+      this.dispatch();
+    });
+
+    poolWorker.worker.on("error", (error) => {
+      console.error("Compiler worker error:", error);
+      this.discardWorker(poolWorker, error);
+    });
+
+    poolWorker.worker.on("exit", () => {
+      if (this.workers.includes(poolWorker)) {
+        this.discardWorker(poolWorker, new Error("Compiler worker exited unexpectedly"));
+      }
+    });
+
+    this.workers.push(poolWorker);
+    return poolWorker;
+  }
+
+  private releaseWorker(poolWorker: PoolWorker): void {
+    if (poolWorker.timeout) {
+      clearTimeout(poolWorker.timeout);
+    }
+    poolWorker.timeout = null;
+    poolWorker.task = null;
+  }
+
+  private discardWorker(poolWorker: PoolWorker, error: Error): void {
+    const task = poolWorker.task;
+    this.releaseWorker(poolWorker);
+    this.workers = this.workers.filter((w) => w !== poolWorker);
+    poolWorker.worker.terminate().catch(() => {});
+    task?.reject(error);
+    this.dispatch();
+  }
+}
+
+export const compilePool = new CompilePool();
@@ -0,0 +1,23 @@
+import { parentPort } from "worker_threads";
+import { loadSolcVersion } from "./solc-cache.js";
+
+export interface CompileWorkerRequest {
+  version: string;
+  input: string; // Standard JSON input
+}
+
+export type CompileWorkerResponse =
+  | { ok: true; output: string; fullVersion: string }
+  | { ok: false; error: string };
+
+// Worker thread entry: runs solc off the Express event loop, one job at a time
+parentPort?.on("message", async ({ version, input }: CompileWorkerRequest) => {
+  let response: CompileWorkerResponse;
+  try {
+    const { compiler, fullVersion } = await loadSolcVersion(version);
+    response = { ok: true, output: compiler.compile(input), fullVersion };
+  } catch (error: any) {
+    response = { ok: false, error: error.message || "Unknown compilation error" };
+  }
+  parentPort?.postMessage(response);
+});
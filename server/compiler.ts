@@ -1,138 +1,841 @@
-import solc from "solc";
-import type { CompileRequest, CompileResponse, CompiledContract } from "@shared/schema";
+import type { AdvancedCompilerSettings, CompileRequest, CompileResponse, CompiledContract, CompilerDiagnostic, CompilerLanguage, ContractArtifacts, ImportError, ImportedCompilerSettings, StandardJsonInput } from "@shared/schema";
+import { EVM_VERSIONS, optimizerDetailsSchema } from "@shared/schema";
 import { contractFlattener } from "./flattener.js";
+import { createHash } from "crypto";
+import { compilePool, type CompileTaskOptions } from "./compile-pool.js";
+import { resolveFullVersion } from "./solc-cache.js";
+import { storage } from "./storage.js";
+import { OPENZEPPELIN_PACKAGES, PackageResolver } from "./package-resolver.js";
+import { compileVyperStandardJson, getVyperVersion } from "./vyper-compiler.js";
 
-const OPENZEPPELIN_BASE_URL =
-  "https://raw.githubusercontent.com/OpenZeppelin/openzeppelin-contracts/v5.0.0/contracts";
+// Foundry-style remappings file, picked up from the workspace root
+const REMAPPINGS_FILE = "remappings.txt";
 
-async function fetchOpenZeppelinContract(path: string): Promise<string> {
-  const url = `${OPENZEPPELIN_BASE_URL}/${path}`;
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch ${path} from OpenZeppelin repository`);
-  }
-  return response.text();
+// Vyper contracts and interface files
+const VYPER_EXTENSIONS = [".vy", ".vyi"];
+
+/**
+ * Files and package settings a compilation resolves its imports against
+ */
+export interface CompileWorkspace {
+  files: Map<string, string>;
+  packages?: Record<string, string>; // Package name -> version
+  remappings?: string[];
+}
+
+/**
+ * Import path that is resolved against the importing file's directory
+ */
+function isRelativeImport(importPath: string): boolean {
+  return importPath.startsWith("./") || importPath.startsWith("../");
 }
 
-function resolveRelativePath(from: string, to: string): string {
-  const fromParts = from.split("/").slice(0, -1);
-  const toParts = to.split("/");
-  
-  for (const part of toParts) {
+/**
+ * Collapse "." and ".." segments, keeping a leading "/" if present
+ */
+function normalizeSourcePath(path: string): string {
+  const isAbsolute = path.startsWith("/");
+  const parts: string[] = [];
+
+  for (const part of path.split("/")) {
+    if (part === "" || part === ".") {
+      continue;
+    }
     if (part === "..") {
-      fromParts.pop();
-    } else if (part !== ".") {
-      fromParts.push(part);
+      parts.pop();
+    } else {
+      parts.push(part);
     }
   }
-  
-  return fromParts.join("/");
+
+  return (isAbsolute ? "/" : "") + parts.join("/");
+}
+
+/**
+ * Compute the source unit name solc will look up for an import.
+ * Relative imports are resolved against the importing file's directory,
+ * direct imports are used verbatim (this mirrors solc's own resolution).
+ */
+function resolveImportPath(fromFile: string, importPath: string): string {
+  if (!isRelativeImport(importPath)) {
+    return importPath;
+  }
+
+  const directory = fromFile.split("/").slice(0, -1).join("/");
+  return normalizeSourcePath(directory ? `${directory}/${importPath}` : importPath);
+}
+
+/**
+ * Map a source unit name onto a workspace file path ("/contracts/A.sol" -> "contracts/A.sol")
+ */
+function toWorkspacePath(sourceUnitName: string): string {
+  return normalizeSourcePath(sourceUnitName).replace(/^\/+/, "");
+}
+
+function stripComments(sourceCode: string): string {
+  return sourceCode
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .replace(/\/\/.*$/gm, "");
+}
+
+function extractImportPaths(sourceCode: string): string[] {
+  const importRegex = /import\s+(?:[^"';]*?\s+from\s+)?["']([^"']+)["'][^;]*;/g;
+  return Array.from(stripComments(sourceCode).matchAll(importRegex), (match) => match[1]);
+}
+
+interface ImportResolutionContext {
+  sources: Map<string, string>;
+  visited: Set<string>;
+  workspaceFiles: Map<string, string>;
+  packageResolver: PackageResolver;
+  packageSources: Set<string>; // Source units that were fetched from packages
+  errors: ImportError[];
 }
 
 async function resolveAllImports(
   sourceCode: string,
   basePath: string,
-  imports: Map<string, string>,
-  visited: Set<string>
+  context: ImportResolutionContext
 ): Promise<void> {
-  if (visited.has(basePath)) {
+  if (context.visited.has(basePath)) {
     return;
   }
-  visited.add(basePath);
-
-  const importRegex = /import\s+(?:(?:\{[^}]*\}|[^"']*)\s+from\s+)?["']([^"']+)["'];/g;
-  const matches = Array.from(sourceCode.matchAll(importRegex));
-  
-  for (const match of matches) {
-    let importPath = match[1];
-    let fullPath: string;
-    let contractPath: string;
-    
-    if (importPath.startsWith("@openzeppelin/contracts/")) {
-      fullPath = importPath;
-      contractPath = importPath.replace("@openzeppelin/contracts/", "");
-    } else if (importPath.startsWith("./") || importPath.startsWith("../")) {
-      const resolvedPath = resolveRelativePath(basePath, importPath);
-      fullPath = `@openzeppelin/contracts/${resolvedPath}`;
-      contractPath = resolvedPath;
-    } else {
+  context.visited.add(basePath);
+
+  for (const importPath of extractImportPaths(sourceCode)) {
+    const sourceUnitName = resolveImportPath(basePath, importPath);
+
+    if (context.sources.has(sourceUnitName)) {
       continue;
     }
-    
-    if (!imports.has(fullPath)) {
+
+    // Remappings decide where content comes from; the source unit name stays as imported
+    const remappedPath = context.packageResolver.remap(sourceUnitName, basePath);
+    let content: string | undefined =
+      context.workspaceFiles.get(toWorkspacePath(sourceUnitName)) ??
+      context.workspaceFiles.get(toWorkspacePath(remappedPath));
+
+    // Direct imports, and relative imports inside a package, are looked up as npm package files
+    const isPackageImport = !isRelativeImport(importPath) || context.packageSources.has(basePath);
+    if (content === undefined && isPackageImport) {
       try {
-        const content = await fetchOpenZeppelinContract(contractPath);
-        // Store under the normalized path
-        imports.set(fullPath, content);
-        
-        const newBasePath = contractPath;
-        await resolveAllImports(content, newBasePath, imports, visited);
+        content = await context.packageResolver.fetch(remappedPath);
+        context.packageSources.add(sourceUnitName);
       } catch (error) {
-        console.error(`Failed to fetch ${fullPath}:`, error);
+        context.errors.push({
+          sourceFile: basePath,
+          importPath,
+          resolvedPath: remappedPath,
+          message: error instanceof Error ? error.message : `Failed to fetch ${remappedPath}`,
+        });
+        continue;
       }
     }
+
+    if (content === undefined) {
+      context.errors.push({
+        sourceFile: basePath,
+        importPath,
+        resolvedPath: sourceUnitName,
+        message: `File "${toWorkspacePath(sourceUnitName)}" was not found in the workspace`,
+      });
+      continue;
+    }
+
+    context.sources.set(sourceUnitName, content);
+    await resolveAllImports(content, sourceUnitName, context);
   }
 }
 
-async function resolveOpenZeppelinImports(sourceCode: string): Promise<Map<string, string>> {
-  const imports = new Map<string, string>();
-  const visited = new Set<string>();
-  
-  await resolveAllImports(sourceCode, "", imports, visited);
-  
-  return imports;
+/**
+ * Resolve every import reachable from the entry file.
+ * Workspace files take precedence; other direct imports are fetched as npm packages
+ * at the workspace's pinned versions.
+ */
+async function resolveImports(
+  sourceCode: string,
+  fileName: string,
+  workspace: CompileWorkspace
+): Promise<{ imports: Map<string, string>; errors: ImportError[]; packages: Record<string, string> }> {
+  const remappingsFile = workspace.files.get(REMAPPINGS_FILE);
+  const context: ImportResolutionContext = {
+    sources: new Map([[fileName, sourceCode]]),
+    visited: new Set(),
+    workspaceFiles: workspace.files,
+    packageResolver: new PackageResolver({
+      packages: workspace.packages,
+      // Explicit workspace remappings come last so they win over remappings.txt
+      remappings: [...(remappingsFile?.split("\n") ?? []), ...(workspace.remappings ?? [])],
+    }),
+    packageSources: new Set(),
+    errors: [],
+  };
+
+  await resolveAllImports(sourceCode, fileName, context);
+  context.sources.delete(fileName);
+
+  return { imports: context.sources, errors: context.errors, packages: context.packageResolver.getUsedPackages() };
+}
+
+/**
+ * Convert a solc byte offset into a 1-based line/column position
+ */
+function offsetToPosition(content: string, byteOffset: number): { line: number; column: number } {
+  const prefix = Buffer.from(content, "utf8").subarray(0, Math.max(byteOffset, 0)).toString("utf8");
+  const lines = prefix.split("\n");
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Turn solc's output.errors into structured diagnostics with line/column ranges
+ */
+function collectDiagnostics(
+  errors: any[] | undefined,
+  sources: Record<string, { content: string }>
+): CompilerDiagnostic[] {
+  return (errors || []).map((error: any) => {
+    const diagnostic: CompilerDiagnostic = {
+      severity: error.severity === "error" ? "error" : error.severity === "warning" ? "warning" : "info",
+      type: error.type,
+      errorCode: error.errorCode,
+      message: error.message,
+      formattedMessage: error.formattedMessage,
+    };
+
+    const location = error.sourceLocation;
+    const content = location ? sources[location.file]?.content : undefined;
+    if (location && typeof location.lineno === "number") {
+      // Vyper reports line numbers directly rather than byte offsets
+      diagnostic.sourceFile = location.file;
+      diagnostic.startLine = location.lineno;
+      diagnostic.startColumn = (location.col_offset ?? 0) + 1;
+    } else if (location && content !== undefined && location.start >= 0) {
+      const start = offsetToPosition(content, location.start);
+      const end = offsetToPosition(content, Math.max(location.end, location.start));
+      diagnostic.sourceFile = location.file;
+      diagnostic.startLine = start.line;
+      diagnostic.startColumn = start.column;
+      diagnostic.endLine = end.line;
+      diagnostic.endColumn = end.column;
+    } else if (location) {
+      diagnostic.sourceFile = location.file;
+    }
+
+    return diagnostic;
+  });
+}
+
+/**
+ * Report unresolved imports as diagnostics pointing at the import statement
+ */
+function importErrorsToDiagnostics(
+  importErrors: ImportError[],
+  sources: Map<string, string>
+): CompilerDiagnostic[] {
+  return importErrors.map((importError) => {
+    const diagnostic: CompilerDiagnostic = {
+      severity: "error",
+      type: "ImportError",
+      message: `Cannot resolve "${importError.importPath}": ${importError.message}`,
+      sourceFile: importError.sourceFile,
+    };
+
+    const content = sources.get(importError.sourceFile);
+    const index = content?.indexOf(importError.importPath) ?? -1;
+    if (content !== undefined && index >= 0) {
+      const start = offsetToPosition(content, Buffer.byteLength(content.slice(0, index), "utf8"));
+      diagnostic.startLine = start.line;
+      diagnostic.startColumn = start.column;
+      diagnostic.endLine = start.line;
+      diagnostic.endColumn = start.column + importError.importPath.length;
+    }
+
+    return diagnostic;
+  });
 }
 
-let solcCache: Map<string, any> = new Map();
-let versionList: any = null;
+interface ContractDefinitionInfo {
+  kind: CompiledContract["kind"];
+  isAbstract: boolean;
+  constructorUsesSender: boolean;
+  sourceOffset: number; // Byte offset of the declaration in its source, from the AST `src` ("start:length:index")
+}
 
-async function fetchSolcVersionList(): Promise<any> {
-  if (versionList) {
-    return versionList;
+// Whether an AST subtree reads msg.sender, directly or through OpenZeppelin's _msgSender()
+function readsSender(node: any): boolean {
+  if (!node || typeof node !== "object") {
+    return false;
   }
+  if (node.nodeType === "MemberAccess" && node.memberName === "sender" && node.expression?.name === "msg") {
+    return true;
+  }
+  if (node.nodeType === "Identifier" && node.name === "_msgSender") {
+    return true;
+  }
+  return Object.values(node).some(readsSender);
+}
 
-  const response = await fetch(
-    "https://binaries.soliditylang.org/bin/list.json"
+/**
+ * Whether deploying a contract runs code that reads msg.sender: its own or an inherited
+ * constructor, base constructor arguments, or state variable initializers. Such contracts
+ * end up owned by the factory when deployed through one.
+ */
+function constructorReadsSender(contract: any, contractsById: Map<number, any>): boolean {
+  return (contract.linearizedBaseContracts ?? [contract.id]).some((id: number) => {
+    const definition = contractsById.get(id);
+    if (!definition) {
+      return false;
+    }
+    if ((definition.baseContracts ?? []).some((base: any) => readsSender(base.arguments))) {
+      return true;
+    }
+    return (definition.nodes ?? []).some((member: any) =>
+      (member.nodeType === "FunctionDefinition" && member.kind === "constructor") ||
+      (member.nodeType === "VariableDeclaration" && member.value)
+        ? readsSender(member)
+        : false
+    );
+  });
+}
+
+/**
+ * Read contract kinds from the source unit ASTs, keyed by "sourceName:contractName"
+ */
+function collectContractDefinitions(output: any): Map<string, ContractDefinitionInfo> {
+  const definitions = new Map<string, ContractDefinitionInfo>();
+
+  // Base contracts can live in any source unit
+  const contractsById = new Map<number, any>();
+  for (const source of Object.values<any>(output.sources || {})) {
+    for (const node of source.ast?.nodes || []) {
+      if (node.nodeType === "ContractDefinition") {
+        contractsById.set(node.id, node);
+      }
+    }
+  }
+
+  for (const [sourceName, source] of Object.entries<any>(output.sources || {})) {
+    for (const node of source.ast?.nodes || []) {
+      if (node.nodeType === "ContractDefinition") {
+        definitions.set(`${sourceName}:${node.name}`, {
+          kind: node.contractKind,
+          isAbstract: !!node.abstract,
+          constructorUsesSender: constructorReadsSender(node, contractsById),
+          sourceOffset: parseInt(String(node.src).split(":")[0], 10),
+        });
+      }
+    }
+  }
+
+  return definitions;
+}
+
+// Extra per-contract outputs requested in extended artifacts mode
+const EXTENDED_CONTRACT_OUTPUTS = [
+  "storageLayout",
+  "evm.gasEstimates",
+  "evm.deployedBytecode.immutableReferences",
+  "evm.methodIdentifiers",
+  "devdoc",
+  "userdoc",
+];
+
+/**
+ * Pick the extended artifacts out of a contract's output, if they were requested
+ */
+function collectArtifacts(contractData: any): ContractArtifacts | undefined {
+  const deployedBytecode = contractData.evm?.deployedBytecode;
+  const artifacts: ContractArtifacts = {
+    storageLayout: contractData.storageLayout,
+    gasEstimates: contractData.evm?.gasEstimates ?? undefined, // null for interfaces
+    deployedBytecode: deployedBytecode?.object ? `0x${stripHexPrefix(deployedBytecode.object)}` : undefined,
+    immutableReferences: deployedBytecode?.immutableReferences,
+    methodIdentifiers: contractData.evm?.methodIdentifiers,
+    devdoc: contractData.devdoc,
+    userdoc: contractData.userdoc,
+  };
+
+  return Object.values(artifacts).some((value) => value !== undefined) ? artifacts : undefined;
+}
+
+// Hex string length in bytes; library placeholders take up as much space as the addresses replacing them
+function byteLength(hex: string | undefined): number {
+  return hex ? hex.length / 2 : 0;
+}
+
+// Vyper prefixes bytecode with 0x, solc doesn't
+function stripHexPrefix(hex: string): string {
+  return hex.startsWith("0x") ? hex.slice(2) : hex;
+}
+
+/**
+ * Build an artifact for every contract in every source of the compiler output
+ */
+function collectContracts(output: any, flattenedSource: string | undefined, extendedArtifacts: boolean): CompiledContract[] {
+  const definitions = collectContractDefinitions(output);
+  const contracts: CompiledContract[] = [];
+
+  for (const [sourceName, sourceContracts] of Object.entries<any>(output.contracts || {})) {
+    // solc sorts contract names alphabetically, and cached output may not even keep that order,
+    // so put each source's contracts back in declaration order
+    const declarationOrder = (contractName: string) =>
+      definitions.get(`${sourceName}:${contractName}`)?.sourceOffset ?? Number.MAX_SAFE_INTEGER;
+    const sortedContracts = Object.entries<any>(sourceContracts).sort(
+      ([a], [b]) => declarationOrder(a) - declarationOrder(b)
+    );
+
+    for (const [contractName, contractData] of sortedContracts) {
+      const definition = definitions.get(`${sourceName}:${contractName}`);
+      const bytecode = stripHexPrefix(contractData.evm?.bytecode?.object || "");
+      const linkReferences = contractData.evm?.bytecode?.linkReferences || {};
+      const artifacts = extendedArtifacts ? collectArtifacts(contractData) : undefined;
+
+      const constructorAbi = contractData.abi.find(
+        (item: any) => item.type === "constructor"
+      );
+      const constructorInputs = constructorAbi?.inputs || [];
+
+      contracts.push({
+        abi: contractData.abi,
+        bytecode: bytecode ? `0x${bytecode}` : "",
+        contractName,
+        sourceName,
+        kind: definition?.kind ?? "contract",
+        // Contracts without bytecode (e.g. unimplemented functions) cannot be deployed either
+        isAbstract: definition?.isAbstract ?? !bytecode,
+        constructorUsesSender: definition?.constructorUsesSender ?? false,
+        constructorInputs: constructorInputs.map((input: any) => ({
+          name: input.name,
+          type: input.type,
+          internalType: input.internalType,
+        })),
+        flattenedSource, // Include flattened source for verification
+        ...(Object.keys(linkReferences).length > 0 ? { linkReferences } : {}),
+        ...(artifacts ? { artifacts } : {}),
+        sizes: {
+          runtime: byteLength(stripHexPrefix(contractData.evm?.deployedBytecode?.object || "")),
+          initcode: byteLength(bytecode),
+        },
+      });
+    }
+  }
+
+  return contracts;
+}
+
+/**
+ * Flattened source for single-file verification, or undefined when the compile
+ * can't be flattened (e.g. an unsupported pragma). Verification prefers the
+ * standard JSON input anyway, so this never fails the compile.
+ */
+export function flattenSources(sources: Record<string, { content: string }>, output: any, entryPath: string): string | undefined {
+  try {
+    return contractFlattener.flatten(sources, collectAsts(output), entryPath);
+  } catch (error: any) {
+    console.warn(`Failed to flatten ${entryPath}:`, error.message);
+    return undefined;
+  }
+}
+
+function collectAsts(output: any): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries<any>(output.sources || {}).map(([sourceName, source]) => [sourceName, source.ast])
   );
-  versionList = await response.json();
-  return versionList;
 }
 
-async function loadSolcVersion(version: string): Promise<{ compiler: any; fullVersion: string }> {
-  if (solcCache.has(version)) {
-    return solcCache.get(version);
+/**
+ * Pick the deployment target: the last deployable contract in the entry file,
+ * which is where the main contract usually follows its interfaces and libraries.
+ * Relies on collectContracts listing each source's contracts in declaration order.
+ */
+function selectDefaultContract(contracts: CompiledContract[], fileName: string): CompiledContract | undefined {
+  const withBytecode = contracts.filter((c) => c.sourceName === fileName && c.bytecode);
+  const deployable = withBytecode.filter((c) => c.kind === "contract" && !c.isAbstract);
+  return deployable[deployable.length - 1] ?? withBytecode[withBytecode.length - 1];
+}
+
+export type CompilerSettingsOptions =
+  Pick<CompileRequest, "optimizationEnabled" | "optimizationRuns" | "evmVersion"> & AdvancedCompilerSettings;
+
+/**
+ * Build the standard JSON `settings` (without outputSelection) for a set of
+ * compiler options. Settings left at solc's defaults are omitted so older
+ * compilers that don't know them still accept the input.
+ */
+export function buildCompilerSettings(options: CompilerSettingsOptions): Record<string, any> {
+  const settings: Record<string, any> = {
+    optimizer: {
+      enabled: options.optimizationEnabled,
+      runs: options.optimizationRuns,
+      ...(options.optimizerDetails && Object.keys(options.optimizerDetails).length > 0
+        ? { details: options.optimizerDetails }
+        : {}),
+    },
+    evmVersion: options.evmVersion,
+  };
+
+  if (options.viaIR) {
+    settings.viaIR = true;
   }
 
-  const list = await fetchSolcVersionList();
-  const releases = list.releases;
-  
-  const longVersion = releases[version];
-  
-  if (!longVersion) {
-    const availableVersions = Object.keys(releases).slice(0, 10).join(", ");
-    throw new Error(`Solidity version ${version} not found in releases. Available versions: ${availableVersions}`);
+  const metadata: Record<string, any> = {};
+  if (options.metadataBytecodeHash && options.metadataBytecodeHash !== "ipfs") {
+    metadata.bytecodeHash = options.metadataBytecodeHash;
+  }
+  if (options.appendCBOR === false) {
+    metadata.appendCBOR = false;
+  }
+  if (Object.keys(metadata).length > 0) {
+    settings.metadata = metadata;
   }
 
-  const versionString = longVersion.replace("soljson-", "").replace(".js", "");
-  
-  console.log(`Loading Solidity compiler: ${version} -> ${versionString}`);
+  if (options.revertStrings && options.revertStrings !== "default") {
+    settings.debug = { revertStrings: options.revertStrings };
+  }
 
-  return new Promise((resolve, reject) => {
-    solc.loadRemoteVersion(versionString, (err: Error | null, solcSnapshot: any) => {
-      if (err) {
-        reject(new Error(`Failed to load Solidity compiler version ${version}: ${err.message}`));
-      } else {
-        const result = { compiler: solcSnapshot, fullVersion: versionString };
-        solcCache.set(version, result);
-        resolve(result);
-      }
+  return settings;
+}
+
+/**
+ * Inverse of buildCompilerSettings: recover compile options from a standard JSON
+ * input. Values this app can't express are dropped.
+ */
+export function parseCompilerSettings(input: StandardJsonInput): ImportedCompilerSettings {
+  const settings = input.settings ?? {};
+  const parsed: ImportedCompilerSettings = { language: input.language };
+
+  if ((EVM_VERSIONS as readonly string[]).includes(settings.evmVersion)) {
+    parsed.evmVersion = settings.evmVersion;
+  }
+
+  if (input.language === "Vyper") {
+    if (typeof settings.optimize === "string") {
+      parsed.optimizationEnabled = settings.optimize !== "none";
+    }
+    return parsed;
+  }
+
+  const optimizer = settings.optimizer ?? {};
+  if (typeof optimizer.enabled === "boolean") {
+    parsed.optimizationEnabled = optimizer.enabled;
+  }
+  if (Number.isInteger(optimizer.runs) && optimizer.runs >= 1 && optimizer.runs <= 10000) {
+    parsed.optimizationRuns = optimizer.runs;
+  }
+  const details = optimizerDetailsSchema.safeParse(optimizer.details);
+  if (details.success && Object.keys(details.data).length > 0) {
+    parsed.optimizerDetails = details.data;
+  }
+
+  if (settings.viaIR === true) {
+    parsed.viaIR = true;
+  }
+  if (["ipfs", "bzzr1", "none"].includes(settings.metadata?.bytecodeHash)) {
+    parsed.metadataBytecodeHash = settings.metadata.bytecodeHash;
+  }
+  if (settings.metadata?.appendCBOR === false) {
+    parsed.appendCBOR = false;
+  }
+  if (["default", "strip", "debug", "verboseDebug"].includes(settings.debug?.revertStrings)) {
+    parsed.revertStrings = settings.debug.revertStrings;
+  }
+  if (Array.isArray(settings.remappings)) {
+    parsed.remappings = settings.remappings.filter((r: unknown): r is string => typeof r === "string");
+  }
+
+  return parsed;
+}
+
+/**
+ * True when options use anything beyond optimization runs and EVM version,
+ * which Etherscan's single-file verification format can't express
+ */
+export function hasAdvancedCompilerSettings(options: AdvancedCompilerSettings): boolean {
+  return Boolean(
+    options.viaIR ||
+    (options.optimizerDetails && Object.keys(options.optimizerDetails).length > 0) ||
+    (options.metadataBytecodeHash && options.metadataBytecodeHash !== "ipfs") ||
+    options.appendCBOR === false ||
+    (options.revertStrings && options.revertStrings !== "default")
+  );
+}
+
+/**
+ * JSON.stringify with object keys sorted, so equal inputs always hash the same
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hashCompilation(fullVersion: string, input: object): string {
+  return createHash("sha256").update(canonicalJson({ compilerVersion: fullVersion, input })).digest("hex");
+}
+
+/**
+ * Look up a previous compilation of the exact same input. Cache failures never
+ * block a compile, they just fall through to a fresh compilation.
+ */
+async function getCachedOutput(hash: string): Promise<any | null> {
+  try {
+    const entry = await storage.getCompilation(hash);
+    if (!entry) {
+      return null;
+    }
+    storage.recordCompilationHit(hash).catch((error) => {
+      console.warn("Failed to record compilation cache hit:", error);
     });
+    return entry.output;
+  } catch (error) {
+    console.warn("Compilation cache lookup failed:", error);
+    return null;
+  }
+}
+
+// Only successful outputs are worth keeping; failed sources get edited and recompiled
+function cacheOutput(hash: string, compilerVersion: string, input: object, output: any): void {
+  if ((output.errors || []).some((err: any) => err.severity === "error")) {
+    return;
+  }
+  storage.saveCompilation({ hash, solcVersion: compilerVersion, input, output }).catch((error) => {
+    console.warn("Failed to store compilation in cache:", error);
   });
 }
 
+/**
+ * Compile a standard JSON input as-is, going through the compilation cache. Returns the
+ * raw output, compile errors included. Vyper inputs need the installed vyper to be the
+ * release in compilerVersion (e.g. "vyper:0.4.0"); Solidity versions may carry the "v"
+ * prefix and commit hash.
+ */
+export async function compileStandardJson(
+  input: StandardJsonInput,
+  compilerVersion: string,
+  options: CompileTaskOptions = {}
+): Promise<any> {
+  if (input.language === "Vyper") {
+    const vyperVersion = await getVyperVersion();
+    const expectedVersion = compilerVersion.replace(/^vyper:/, "");
+    if (vyperVersion.split("+")[0] !== expectedVersion) {
+      throw new Error(`Compiled with vyper ${expectedVersion}, but vyper ${vyperVersion} is installed`);
+    }
+
+    const compilationHash = hashCompilation(`vyper-${vyperVersion}`, input);
+    let output = await getCachedOutput(compilationHash);
+    if (output === null) {
+      output = JSON.parse(await compileVyperStandardJson(JSON.stringify(input), options));
+      cacheOutput(compilationHash, `vyper-${vyperVersion}`, input, output);
+    }
+    return output;
+  }
+
+  const solcVersion = compilerVersion.replace(/^v/, "").split("+")[0];
+  const fullVersion = await resolveFullVersion(solcVersion);
+  const compilationHash = hashCompilation(fullVersion, input);
+  let output = await getCachedOutput(compilationHash);
+  if (output === null) {
+    const { output: rawOutput } = await compilePool.compile(solcVersion, JSON.stringify(input), options);
+    output = JSON.parse(rawOutput);
+    cacheOutput(compilationHash, fullVersion, input, output);
+  }
+  return output;
+}
+
+export function detectLanguage(fileName: string): CompilerLanguage {
+  return VYPER_EXTENSIONS.some((ext) => fileName.endsWith(ext)) ? "Vyper" : "Solidity";
+}
+
+/**
+ * Vyper standard JSON input. Vyper resolves imports itself, so every Vyper file
+ * in the workspace is passed along as a source.
+ */
+function buildVyperInput(request: CompileRequest, workspace: CompileWorkspace): StandardJsonInput {
+  const { sourceCode, fileName, optimizationEnabled = true, evmVersion = "paris", extendedArtifacts = false } = request;
+
+  const sources: Record<string, { content: string }> = {};
+  workspace.files.forEach((content, path) => {
+    if (detectLanguage(path) === "Vyper") {
+      sources[path] = { content };
+    }
+  });
+  sources[fileName] = { content: sourceCode };
+
+  return {
+    language: "Vyper",
+    sources,
+    settings: {
+      evmVersion,
+      optimize: optimizationEnabled ? "gas" : "none",
+      outputSelection: {
+        "*": [
+          "abi",
+          "evm.bytecode",
+          "evm.deployedBytecode",
+          ...(extendedArtifacts ? ["evm.methodIdentifiers", "devdoc", "userdoc", "ast"] : []),
+        ],
+      },
+    },
+  };
+}
+
+/**
+ * Resolve imports and assemble the solc standard JSON input for a compile request
+ */
+async function buildSolidityInput(request: CompileRequest, workspace: CompileWorkspace): Promise<{
+  input: StandardJsonInput;
+  imports: Map<string, string>;
+  importErrors: ImportError[];
+  packages: Record<string, string>; // Packages the imports were loaded from, with versions
+}> {
+  const {
+    sourceCode,
+    fileName,
+    solcVersion,
+    optimizationEnabled = true,
+    optimizationRuns = 200,
+    evmVersion = "paris",
+    openzeppelinVersion,
+    extendedArtifacts = false,
+    language,
+    ...advancedSettings
+  } = request;
+
+  // An explicit OpenZeppelin version wins over whatever the workspace pins
+  const packages = openzeppelinVersion
+    ? { ...workspace.packages, ...Object.fromEntries(OPENZEPPELIN_PACKAGES.map((name) => [name, openzeppelinVersion])) }
+    : workspace.packages;
+
+  const { imports, errors: importErrors, packages: usedPackages } = await resolveImports(
+    sourceCode,
+    fileName,
+    { ...workspace, packages }
+  );
+
+  const sources: Record<string, { content: string }> = {
+    [fileName]: { content: sourceCode },
+  };
+
+  imports.forEach((content, path) => {
+    sources[path] = { content };
+  });
+
+  const input: StandardJsonInput = {
+    language: "Solidity",
+    sources,
+    settings: {
+      outputSelection: {
+        "*": {
+          "*": [
+            "abi",
+            "evm.bytecode.object",
+            "evm.bytecode.linkReferences",
+            "evm.deployedBytecode.object", // Needed for the EIP-170 size check
+            "metadata", // Needed for Sourcify verification
+            ...(extendedArtifacts ? EXTENDED_CONTRACT_OUTPUTS : []),
+          ],
+          "": ["ast"], // Needed to tell interfaces, libraries and abstract contracts apart
+        },
+      },
+      ...buildCompilerSettings({ optimizationEnabled, optimizationRuns, evmVersion, ...advancedSettings }),
+    },
+  };
+
+  return { input, imports, importErrors, packages: usedPackages };
+}
+
+/**
+ * The exact standard JSON input compileContract sends to the compiler for a request
+ */
+export async function buildStandardJsonInput(
+  request: CompileRequest,
+  workspace: CompileWorkspace = { files: new Map() }
+): Promise<{ input: StandardJsonInput; importErrors: ImportError[] }> {
+  if ((request.language ?? detectLanguage(request.fileName)) === "Vyper") {
+    return { input: buildVyperInput(request, workspace), importErrors: [] };
+  }
+
+  const { input, importErrors } = await buildSolidityInput(request, workspace);
+  return { input, importErrors };
+}
+
+/**
+ * Compile a Vyper contract through the Vyper executable
+ */
+async function compileVyperContract(
+  request: CompileRequest,
+  workspace: CompileWorkspace,
+  options: CompileTaskOptions
+): Promise<CompileResponse> {
+  try {
+    const { fileName, evmVersion = "paris", extendedArtifacts = false } = request;
+    const input = buildVyperInput(request, workspace);
+    const { sources } = input;
+
+    const vyperVersion = await getVyperVersion();
+    console.log(`Compiling Vyper contract with vyper ${vyperVersion}, optimize: ${input.settings.optimize}, EVM: ${evmVersion}`);
+    const compilationHash = hashCompilation(`vyper-${vyperVersion}`, input);
+
+    let output = await getCachedOutput(compilationHash);
+    const cached = output !== null;
+    if (!cached) {
+      output = JSON.parse(await compileVyperStandardJson(JSON.stringify(input), options));
+      cacheOutput(compilationHash, `vyper-${vyperVersion}`, input, output);
+    }
+
+    const diagnostics = collectDiagnostics(output.errors, sources);
+    const errors = (output.errors || []).filter((err: any) => err.severity === "error");
+    if (errors.length > 0) {
+      const errorMessage = errors.map((e: any) => e.formattedMessage || e.message).join("\n");
+      console.error("Compilation errors:", errorMessage);
+      return { success: false, error: errorMessage, diagnostics, language: "Vyper" };
+    }
+
+    // Vyper has no flattened form; verification submits the standard JSON input instead
+    const contracts = collectContracts(output, undefined, extendedArtifacts);
+    const compiledContract = selectDefaultContract(contracts, fileName);
+    if (!compiledContract) {
+      return { success: false, error: "No contract found in the source code", diagnostics, language: "Vyper" };
+    }
+
+    return {
+      success: true,
+      contract: compiledContract,
+      contracts,
+      diagnostics,
+      // Etherscan's format for Vyper releases, without the commit hash (e.g., "vyper:0.4.0")
+      compilerVersion: `vyper:${vyperVersion.split("+")[0]}`,
+      compilationHash,
+      cached,
+      language: "Vyper",
+      ...(extendedArtifacts ? { asts: collectAsts(output) } : {}),
+    };
+  } catch (error: any) {
+    console.error("Compilation error:", error);
+    return {
+      success: false,
+      error: error.message || "Unknown compilation error",
+      language: "Vyper",
+    };
+  }
+}
+
 export async function compileContract(
-  request: CompileRequest
+  request: CompileRequest,
+  workspace: CompileWorkspace = { files: new Map() },
+  options: CompileTaskOptions = {}
 ): Promise<CompileResponse> {
+  if ((request.language ?? detectLanguage(request.fileName)) === "Vyper") {
+    return compileVyperContract(request, workspace, options);
+  }
+
   try {
     const { 
       sourceCode, 
@@ -140,97 +843,88 @@ export async function compileContract(
       solcVersion,
       optimizationEnabled = true,
       optimizationRuns = 200,
-      evmVersion = "paris"
+      evmVersion = "paris",
+      extendedArtifacts = false,
     } = request;
 
-    console.log(`Compiling contract with solc version: ${solcVersion}, optimization: ${optimizationEnabled} (${optimizationRuns} runs), EVM: ${evmVersion}`);
-    const { compiler, fullVersion } = await loadSolcVersion(solcVersion);
+    console.log(`Compiling contract with solc version: ${solcVersion}, optimization: ${optimizationEnabled} (${optimizationRuns} runs), EVM: ${evmVersion}${request.viaIR ? ", via IR" : ""}`);
+    const { input, imports, importErrors, packages: usedPackages } = await buildSolidityInput(request, workspace);
+    if (importErrors.length > 0) {
+      const errorMessage = importErrors
+        .map((e) => `${e.sourceFile}: cannot resolve "${e.importPath}" - ${e.message}`)
+        .join("\n");
+      console.error("Import resolution errors:", errorMessage);
+      return {
+        success: false,
+        error: errorMessage,
+        importErrors,
+        diagnostics: importErrorsToDiagnostics(importErrors, new Map([[fileName, sourceCode], ...Array.from(imports.entries())])),
+      };
+    }
 
-    const imports = await resolveOpenZeppelinImports(sourceCode);
-    
-    const sources: Record<string, { content: string }> = {
-      [fileName]: { content: sourceCode },
-    };
-    
-    imports.forEach((content, path) => {
-      sources[path] = { content };
-    });
+    const { sources } = input;
+    const fullVersion = await resolveFullVersion(solcVersion);
+    const compilationHash = hashCompilation(fullVersion, input);
 
-    const input = {
-      language: "Solidity",
-      sources,
-      settings: {
-        outputSelection: {
-          "*": {
-            "*": ["abi", "evm.bytecode.object"],
-          },
-        },
-        optimizer: {
-          enabled: optimizationEnabled,
-          runs: optimizationRuns,
-        },
-        evmVersion: evmVersion,
-      },
-    };
+    let output = await getCachedOutput(compilationHash);
+    const cached = output !== null;
+    if (!cached) {
+      // solc runs on a worker thread so large compilations don't block other requests
+      const { output: rawOutput } = await compilePool.compile(solcVersion, JSON.stringify(input), options);
+      output = JSON.parse(rawOutput);
 
-    const output = JSON.parse(compiler.compile(JSON.stringify(input)));
+      cacheOutput(compilationHash, fullVersion, input, output);
+    }
 
-    if (output.errors) {
-      const errors = output.errors.filter(
-        (err: any) => err.severity === "error"
-      );
-      if (errors.length > 0) {
-        const errorMessage = errors.map((e: any) => e.formattedMessage || e.message).join("\n");
-        console.error("Compilation errors:", errorMessage);
-        return {
-          success: false,
-          error: errorMessage,
-        };
-      }
+    const diagnostics = collectDiagnostics(output.errors, sources);
+
+    const errors = (output.errors || []).filter(
+      (err: any) => err.severity === "error"
+    );
+    if (errors.length > 0) {
+      const errorMessage = errors.map((e: any) => e.formattedMessage || e.message).join("\n");
+      console.error("Compilation errors:", errorMessage);
+      return {
+        success: false,
+        error: errorMessage,
+        diagnostics,
+      };
     }
 
-    const contractFile = output.contracts[fileName];
-    if (!contractFile) {
+    const entryContracts = output.contracts?.[fileName];
+    if (!entryContracts || Object.keys(entryContracts).length === 0) {
       return {
         success: false,
         error: "No contract found in the source code",
+        diagnostics,
       };
     }
 
-    const contractName = Object.keys(contractFile)[0];
-    const contractData = contractFile[contractName];
+    // Flatten the source code for verification purposes
+    const flattenedSource = flattenSources(sources, output, fileName);
+
+    const contracts = collectContracts(output, flattenedSource, extendedArtifacts);
+    const compiledContract = selectDefaultContract(contracts, fileName);
 
-    if (!contractData.evm?.bytecode?.object) {
+    if (!compiledContract) {
       return {
         success: false,
-        error: "Failed to compile contract bytecode",
+        error: "No deployable contract found in the source code",
+        diagnostics,
       };
     }
 
-    const constructorAbi = contractData.abi.find(
-      (item: any) => item.type === "constructor"
-    );
-    const constructorInputs = constructorAbi?.inputs || [];
-
-    // Flatten the source code for verification purposes
-    const flattenedSource = contractFlattener.flatten(sourceCode, imports);
-
-    const compiledContract: CompiledContract = {
-      abi: contractData.abi,
-      bytecode: `0x${contractData.evm.bytecode.object}`,
-      contractName,
-      constructorInputs: constructorInputs.map((input: any) => ({
-        name: input.name,
-        type: input.type,
-        internalType: input.internalType,
-      })),
-      flattenedSource, // Include flattened source for verification
-    };
-
     return {
       success: true,
       contract: compiledContract,
+      contracts,
+      diagnostics,
       compilerVersion: fullVersion, // Full version with commit hash (e.g., "v0.8.30+commit.6182c971")
+      compilationHash,
+      cached,
+      language: "Solidity",
+      openzeppelinVersion: OPENZEPPELIN_PACKAGES.map((name) => usedPackages[name]).find(Boolean),
+      ...(extendedArtifacts ? { asts: collectAsts(output) } : {}),
     };
   } catch (error: any) {
     console.error("Compilation error:", error);
@@ -0,0 +1,59 @@
+import { FetchRequest, JsonRpcProvider } from "ethers";
+import { CREATE2_FACTORY_ADDRESS, NETWORKS, type Create2NetworkStatus } from "@shared/schema";
+
+// Networks are queried in parallel; one slow RPC shouldn't hold up the rest (10 seconds)
+const RPC_TIMEOUT = 10 * 1000;
+
+// Provider cache keyed by chainId
+const providerCache = new Map<number, JsonRpcProvider>();
+
+function getOrCreateProvider(chainId: number): JsonRpcProvider {
+  if (providerCache.has(chainId)) {
+    return providerCache.get(chainId)!;
+  }
+
+  const network = NETWORKS.find((n) => n.chainId === chainId);
+  if (!network) {
+    throw new Error(`Unsupported network with chainId ${chainId}`);
+  }
+
+  const request = new FetchRequest(network.rpcUrl);
+  request.timeout = RPC_TIMEOUT;
+  const provider = new JsonRpcProvider(request, chainId, { staticNetwork: true });
+  providerCache.set(chainId, provider);
+  return provider;
+}
+
+async function checkNetwork(chainId: number, networkId: string, address: string): Promise<Create2NetworkStatus> {
+  try {
+    const provider = getOrCreateProvider(chainId);
+    const [code, factoryCode] = await Promise.all([
+      provider.getCode(address),
+      provider.getCode(CREATE2_FACTORY_ADDRESS),
+    ]);
+
+    return {
+      network: networkId,
+      chainId,
+      deployed: code !== "0x",
+      factoryAvailable: factoryCode !== "0x",
+    };
+  } catch (error) {
+    console.error(`Failed to check CREATE2 address on chainId ${chainId}:`, error);
+    return {
+      network: networkId,
+      chainId,
+      deployed: null,
+      factoryAvailable: null,
+      error: error instanceof Error ? error.message : "RPC request failed",
+    };
+  }
+}
+
+/**
+ * Whether a precomputed CREATE2 address already holds code on each network, and
+ * whether the factory needed to deploy there exists
+ */
+export async function checkCreate2Address(address: string): Promise<Create2NetworkStatus[]> {
+  return Promise.all(NETWORKS.map((network) => checkNetwork(network.chainId, network.id, address)));
+}
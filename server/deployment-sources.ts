@@ -0,0 +1,132 @@
+import { AbiCoder } from "ethers";
+import type { CompileRequest, CompilerLanguage, Deployment, OptimizerDetails, StandardJsonInput } from "@shared/schema";
+import { buildStandardJsonInput, compileStandardJson } from "./compiler";
+import { storage } from "./storage";
+import { findSourceName, type VerificationPayload } from "./verification-provider";
+
+// Compile request reproducing a stored deployment's settings from its saved source
+export function deploymentCompileRequest(deployment: Deployment): CompileRequest {
+  const language = (deployment.language || "Solidity") as CompilerLanguage;
+  return {
+    sourceCode: deployment.sourceCode,
+    // Same source unit name as the original compile, since it ends up in the metadata hash.
+    // Rows from before it was stored fall back to the editor's single-file name.
+    fileName: deployment.sourcePath ?? `Contract.${language === "Vyper" ? "vy" : "sol"}`,
+    language,
+    solcVersion: deployment.solcVersion || "0.8.20",
+    optimizationEnabled: deployment.optimizationEnabled ?? true,
+    optimizationRuns: deployment.optimizationRuns ?? 200,
+    evmVersion: (deployment.evmVersion || "paris") as CompileRequest["evmVersion"], // Fallback to paris for legacy deployments
+    viaIR: deployment.viaIR,
+    optimizerDetails: (deployment.optimizerDetails as OptimizerDetails | null) ?? undefined,
+    metadataBytecodeHash: deployment.metadataBytecodeHash as CompileRequest["metadataBytecodeHash"],
+    appendCBOR: deployment.appendCBOR,
+    revertStrings: deployment.revertStrings as CompileRequest["revertStrings"],
+    openzeppelinVersion: deployment.openzeppelinVersion ?? undefined, // Same library code the deployment was built from
+  };
+}
+
+export interface DeploymentStandardJson {
+  input: StandardJsonInput;
+  sourceName?: string; // Source unit defining the deployed contract, unknown when the input no longer compiles
+  output?: any; // Raw compiler output
+  metadata?: string; // Compiler metadata JSON of the deployed contract
+}
+
+function withCompilerOutput(deployment: Deployment, input: StandardJsonInput, output: any): DeploymentStandardJson {
+  const sourceName = findSourceName(output, deployment.contractName);
+  const metadata = sourceName ? output.contracts[sourceName][deployment.contractName].metadata : undefined;
+  return { input, sourceName, output, metadata };
+}
+
+// Standard JSON input a deployment was compiled from: the cached compile is exactly what was
+// compiled, older deployments are rebuilt from their saved source. Undefined when that source's
+// imports no longer resolve (e.g. workspace files it imported have changed or been deleted).
+export async function loadDeploymentStandardJson(deployment: Deployment): Promise<DeploymentStandardJson | undefined> {
+  const compilation = deployment.compilationHash
+    ? await storage.getCompilation(deployment.compilationHash)
+    : undefined;
+  if (compilation) {
+    return withCompilerOutput(deployment, compilation.input as StandardJsonInput, compilation.output);
+  }
+
+  const { input, importErrors } = await buildStandardJsonInput(deploymentCompileRequest(deployment));
+  if (importErrors.length > 0) {
+    return undefined;
+  }
+
+  // Only the compiler knows which source defines the contract; the output is cached from here on
+  try {
+    return withCompilerOutput(deployment, input, await compileStandardJson(input, deployment.solcVersion || "0.8.20"));
+  } catch (error: any) {
+    console.warn(`Failed to recompile deployment ${deployment.id}:`, error.message);
+    return { input };
+  }
+}
+
+// Everything a verification provider needs to verify a stored deployment
+export async function buildVerificationPayload(deployment: Deployment): Promise<VerificationPayload> {
+  // Verify from the original multi-source compile; the flattened source is only a fallback
+  // for legacy deployments whose standard JSON input can't be recovered
+  const standardJson = await loadDeploymentStandardJson(deployment);
+  let sourceForVerification = standardJson ? deployment.sourceCode : deployment.flattenedSource;
+  
+  if (!sourceForVerification) {
+    // Recompiling can't help here: the imports that kept the standard JSON input from being rebuilt would fail again
+    console.warn(`[Verification] No standard JSON input or flattened source for deployment ${deployment.id}, using raw source`);
+    sourceForVerification = deployment.sourceCode;
+  }
+  
+  // Encode constructor arguments if present
+  let encodedConstructorArgs: string | undefined;
+  if (deployment.constructorArgs && Array.isArray(deployment.constructorArgs) && deployment.constructorArgs.length > 0) {
+    try {
+      // Find constructor in ABI (cast to array since it's stored as JSONB)
+      const abi = deployment.abi as any[];
+      const constructorAbi = abi.find((item: any) => item.type === 'constructor');
+      if (constructorAbi && constructorAbi.inputs && constructorAbi.inputs.length > 0) {
+        // Extract types from constructor inputs
+        const types = constructorAbi.inputs.map((input: any) => input.type);
+        
+        // Encode constructor arguments
+        const abiCoder = AbiCoder.defaultAbiCoder();
+        const encoded = abiCoder.encode(types, deployment.constructorArgs);
+        
+        // Remove '0x' prefix for Etherscan
+        encodedConstructorArgs = encoded.startsWith('0x') ? encoded.slice(2) : encoded;
+        
+        console.log('[Verification] Encoded constructor args:', {
+          types,
+          values: deployment.constructorArgs,
+          encoded: encodedConstructorArgs,
+        });
+      }
+    } catch (error) {
+      console.error('[Verification] Failed to encode constructor arguments:', error);
+      // Continue without constructor args rather than failing
+    }
+  }
+  
+  return {
+    contractAddress: deployment.contractAddress,
+    sourceCode: sourceForVerification,
+    contractName: deployment.contractName,
+    compilerVersion: deployment.solcVersion || "0.8.20",
+    chainId: deployment.chainId,
+    constructorArguments: encodedConstructorArgs,
+    optimizationEnabled: deployment.optimizationEnabled ?? true,
+    optimizationRuns: deployment.optimizationRuns ?? 200,
+    evmVersion: deployment.evmVersion || "paris",
+    viaIR: deployment.viaIR,
+    optimizerDetails: deployment.optimizerDetails as OptimizerDetails | null,
+    metadataBytecodeHash: deployment.metadataBytecodeHash as CompileRequest["metadataBytecodeHash"],
+    appendCBOR: deployment.appendCBOR,
+    revertStrings: deployment.revertStrings as CompileRequest["revertStrings"],
+    libraries: deployment.libraries as Record<string, string> | null,
+    language: deployment.language as CompilerLanguage,
+    standardJsonInput: standardJson?.input,
+    sourceName: standardJson?.sourceName,
+    metadata: standardJson?.metadata,
+    creationTransactionHash: deployment.txHash,
+  };
+}
@@ -0,0 +1,164 @@
+import { FetchRequest, JsonRpcProvider, isError } from "ethers";
+import { NETWORKS, type Deployment } from "@shared/schema";
+import { config } from "../config";
+import { storage } from "./storage";
+
+// How often unsettled deployments are checked (15 seconds)
+const WATCH_INTERVAL = 15 * 1000;
+
+// A transaction the node still doesn't know this long after it was sent was
+// replaced or evicted from the mempool (30 minutes)
+const DROP_TIMEOUT = 30 * 60 * 1000;
+
+// Passes run one deployment at a time, so a hung RPC endpoint mustn't stall them (10 seconds)
+const RPC_TIMEOUT = 10 * 1000;
+
+/**
+ * Follows deployment transactions from the moment they're sent until they're buried
+ * under DEPLOYMENT_CONFIRMATIONS blocks, so a deployment survives the browser tab being
+ * closed. Fills in block, gas and nonce details from the receipt and notices when a
+ * reorg moves or removes the block it was mined in.
+ */
+export class DeploymentWatcher {
+  private intervalId: NodeJS.Timeout | null = null;
+  private watching = false;
+  private providers = new Map<number, JsonRpcProvider>();
+
+  start(): void {
+    if (this.intervalId) {
+      console.warn('Deployment watcher is already running');
+      return;
+    }
+
+    // Pick up deployments left unsettled by a previous run straight away
+    this.watch();
+    this.intervalId = setInterval(() => this.watch(), WATCH_INTERVAL);
+
+    console.log(`Deployment watcher started. Checking unsettled deployments every ${WATCH_INTERVAL / 1000} seconds`);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.providers.forEach((rpc) => rpc.destroy());
+      this.providers.clear();
+      console.log('Deployment watcher stopped');
+    }
+  }
+
+  // One provider per chain, kept across passes
+  private getProvider(chainId: number): JsonRpcProvider {
+    let rpc = this.providers.get(chainId);
+    if (!rpc) {
+      const network = NETWORKS.find((n) => n.chainId === chainId);
+      if (!network) {
+        throw new Error(`Network not found for chain ID ${chainId}`);
+      }
+      const request = new FetchRequest(network.rpcUrl);
+      request.timeout = RPC_TIMEOUT;
+      rpc = new JsonRpcProvider(request, chainId, { staticNetwork: true });
+      this.providers.set(chainId, rpc);
+    }
+    return rpc;
+  }
+
+  // Check a deployment's transaction once and store what the chain says about it
+  private async check(deployment: Deployment, latestBlock: number): Promise<void> {
+    const rpc = this.getProvider(deployment.chainId);
+    const receipt = await rpc.getTransactionReceipt(deployment.txHash);
+
+    if (!receipt) {
+      if (deployment.status === 'mined') {
+        // The block it was mined in is gone; reorged transactions usually return to the mempool
+        console.warn(`[Deployment] Reorg removed deployment ${deployment.id} from block ${deployment.blockNumber}, waiting for it to be mined again`);
+        await storage.updateDeploymentChainState(deployment.id, {
+          status: 'pending',
+          blockNumber: null,
+          blockHash: null,
+          confirmations: 0,
+          gasUsed: null,
+          effectiveGasPrice: null,
+        });
+        return;
+      }
+
+      const tx = await rpc.getTransaction(deployment.txHash);
+      if (tx) {
+        if (deployment.deployerNonce !== tx.nonce) {
+          await storage.updateDeploymentChainState(deployment.id, { deployerNonce: tx.nonce });
+        }
+        return;
+      }
+      if (Date.now() - deployment.deployedAt.getTime() > DROP_TIMEOUT) {
+        console.warn(`[Deployment] Transaction ${deployment.txHash} for deployment ${deployment.id} was dropped`);
+        await storage.updateDeploymentChainState(deployment.id, { status: 'dropped' });
+      }
+      return; // Otherwise not propagated to this node yet
+    }
+
+    if (deployment.blockHash && deployment.blockHash !== receipt.blockHash) {
+      console.warn(`[Deployment] Reorg moved deployment ${deployment.id} from block ${deployment.blockNumber} to ${receipt.blockNumber}`);
+    }
+
+    const confirmations = Math.max(0, latestBlock - receipt.blockNumber + 1);
+    const deployerNonce = deployment.deployerNonce ?? (await rpc.getTransaction(deployment.txHash))?.nonce ?? null;
+
+    await storage.updateDeploymentChainState(deployment.id, {
+      status: receipt.status === 0
+        ? 'failed'
+        : confirmations >= config.DEPLOYMENT_CONFIRMATIONS ? 'confirmed' : 'mined',
+      // Null when the transaction went through a factory rather than creating the contract itself
+      contractAddress: receipt.contractAddress ?? deployment.contractAddress,
+      blockNumber: receipt.blockNumber,
+      blockHash: receipt.blockHash,
+      confirmations,
+      gasUsed: receipt.gasUsed.toString(),
+      effectiveGasPrice: receipt.gasPrice.toString(),
+      deployerNonce,
+    });
+  }
+
+  private async watch(): Promise<void> {
+    // Slow RPC endpoints can make one pass outlast the interval
+    if (this.watching) {
+      return;
+    }
+    this.watching = true;
+
+    try {
+      const unsettled = await storage.getUnsettledDeployments();
+      const latestBlocks = new Map<number, number>();
+      const timedOut = new Set<number>(); // Chains skipped for the rest of this pass
+
+      for (const deployment of unsettled) {
+        if (timedOut.has(deployment.chainId)) {
+          continue;
+        }
+        try {
+          let latest = latestBlocks.get(deployment.chainId);
+          if (latest === undefined) {
+            latest = await this.getProvider(deployment.chainId).getBlockNumber();
+            latestBlocks.set(deployment.chainId, latest);
+          }
+          await this.check(deployment, latest);
+        } catch (error) {
+          if (isError(error, "TIMEOUT")) {
+            // The chain's other deployments would only wait out the same timeout
+            console.warn(`[Deployment] RPC for chain ${deployment.chainId} timed out, skipping it until the next pass`);
+            timedOut.add(deployment.chainId);
+            continue;
+          }
+          // Usually a flaky RPC endpoint; the next pass tries again
+          console.error(`Failed to check deployment ${deployment.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load unsettled deployments:', error);
+    } finally {
+      this.watching = false;
+    }
+  }
+}
+
+export const deploymentWatcher = new DeploymentWatcher();
@@ -0,0 +1,372 @@
+import type { AdvancedCompilerSettings, CompileRequest, Network, VerificationProviderName } from "@shared/schema";
+import { config } from "../config";
+import { buildCompilerSettings, hasAdvancedCompilerSettings } from "./compiler";
+import type { VerificationPayload, VerificationProvider, VerificationStatus, VerificationSubmission } from "./verification-provider";
+
+// Etherscan accepts at most 10 libraryname/libraryaddress pairs
+const MAX_LIBRARIES = 10;
+
+// Returned when the explorer hasn't indexed a freshly deployed contract yet
+const CONTRACT_NOT_INDEXED = /Unable to locate ContractCode/i;
+
+/**
+ * Etherscan V2 API: one endpoint and API key for every chain Etherscan indexes
+ */
+export class EtherscanVerifier implements VerificationProvider {
+  readonly name: VerificationProviderName = 'etherscan';
+  private readonly ETHERSCAN_V2_BASE_URL = 'https://api.etherscan.io/v2/api';
+
+  protected getApiKey(network: Network): string | null {
+    return config.ETHERSCAN_API_KEY || null;
+  }
+
+  // Etherscan V2 API requires chainid in both URL and POST body
+  protected getApiUrl(network: Network): string | null {
+    return `${this.ETHERSCAN_V2_BASE_URL}?chainid=${network.chainId}`;
+  }
+
+  /**
+   * Reason the provider can't be used for a network, or null when it can
+   */
+  protected getConfigurationError(network: Network): string | null {
+    return this.getApiKey(network) ? null : 'ETHERSCAN_API_KEY not configured. Please add it to environment variables.';
+  }
+
+  isConfigured(network: Network): boolean {
+    return this.getConfigurationError(network) === null;
+  }
+
+  getContractUrl(network: Network, address: string): string {
+    return `${network.blockExplorer}/address/${address}#code`;
+  }
+
+  async verifyContract(payload: VerificationPayload, network: Network): Promise<VerificationSubmission> {
+    const configurationError = this.getConfigurationError(network);
+    if (configurationError) {
+      return {
+        success: false,
+        message: configurationError,
+      };
+    }
+    const apiKey = this.getApiKey(network);
+    const apiUrl = this.getApiUrl(network)!;
+
+    try {
+      const isVyper = payload.language === 'Vyper';
+
+      // Compiler version should already include 'v' prefix (e.g., "v0.8.30+commit.6182c971")
+      // If it doesn't have the prefix, add it. Vyper versions look like "vyper:0.4.0".
+      const compilerVersion = isVyper || payload.compilerVersion.startsWith('v')
+        ? payload.compilerVersion 
+        : `v${payload.compilerVersion}`;
+
+      // Use provided optimization settings or defaults
+      const optimizationEnabled = payload.optimizationEnabled ?? true;
+      const optimizationRuns = payload.optimizationRuns ?? 200;
+      const evmVersion = payload.evmVersion ?? 'paris';
+
+      // The single-file format only carries optimizer runs and EVM version, so viaIR,
+      // metadata and debug settings need a standard JSON input to be reproduced exactly
+      const advancedSettings: AdvancedCompilerSettings = {
+        viaIR: payload.viaIR,
+        optimizerDetails: payload.optimizerDetails ?? undefined,
+        metadataBytecodeHash: payload.metadataBytecodeHash,
+        appendCBOR: payload.appendCBOR,
+        revertStrings: payload.revertStrings,
+      };
+      const useStandardJson = hasAdvancedCompilerSettings(advancedSettings);
+
+      // The flattened source puts every library in one file, so only library names matter here
+      const libraries = Object.entries(payload.libraries ?? {}).map(([key, address]) => ({
+        name: key.slice(key.lastIndexOf(':') + 1),
+        address,
+      }));
+      if (libraries.length > MAX_LIBRARIES) {
+        return {
+          success: false,
+          message: `Verification supports at most ${MAX_LIBRARIES} linked libraries`,
+        };
+      }
+
+      const params = new URLSearchParams({
+        chainid: payload.chainId.toString(),
+        module: 'contract',
+        action: 'verifysourcecode',
+        contractaddress: payload.contractAddress,
+        compilerversion: compilerVersion,
+      });
+      if (apiKey) {
+        params.append('apikey', apiKey);
+      }
+
+      const input = payload.standardJsonInput;
+      const sourceName = input ? payload.sourceName : undefined;
+      if ((isVyper || input) && !sourceName) {
+        return {
+          success: false,
+          message: `Source for contract ${payload.contractName} not found in the compiler output`,
+        };
+      }
+
+      if (isVyper) {
+        params.append('codeformat', 'vyper-json');
+        params.append('contractname', `${sourceName}:${payload.contractName}`);
+        params.append('sourceCode', JSON.stringify(input));
+        params.append('optimizationUsed', optimizationEnabled ? '1' : '0');
+      } else if (input) {
+        // Linked libraries must be listed under the source unit that declares them
+        const inputLibraries: Record<string, Record<string, string>> = {};
+        Object.entries(payload.libraries ?? {}).forEach(([key, address]) => {
+          const separator = key.lastIndexOf(':');
+          const librarySource = key.slice(0, separator);
+          inputLibraries[librarySource] = { ...inputLibraries[librarySource], [key.slice(separator + 1)]: address };
+        });
+        params.append('codeformat', 'solidity-standard-json-input');
+        params.append('contractname', `${sourceName}:${payload.contractName}`);
+        params.append('sourceCode', JSON.stringify({
+          ...input,
+          settings: {
+            ...input.settings,
+            ...(libraries.length > 0 ? { libraries: inputLibraries } : {}),
+          },
+        }));
+      } else if (useStandardJson) {
+        const sourceName = `${payload.contractName}.sol`;
+        params.append('codeformat', 'solidity-standard-json-input');
+        params.append('contractname', `${sourceName}:${payload.contractName}`);
+        params.append('sourceCode', JSON.stringify({
+          language: 'Solidity',
+          sources: { [sourceName]: { content: payload.sourceCode } },
+          settings: {
+            ...buildCompilerSettings({
+              optimizationEnabled,
+              optimizationRuns,
+              evmVersion: evmVersion as CompileRequest["evmVersion"],
+              ...advancedSettings,
+            }),
+            ...(libraries.length > 0
+              ? { libraries: { [sourceName]: Object.fromEntries(libraries.map((l) => [l.name, l.address])) } }
+              : {}),
+          },
+        }));
+      } else {
+        params.append('codeformat', 'solidity-single-file');
+        params.append('contractname', payload.contractName);
+        params.append('sourceCode', payload.sourceCode);
+        params.append('optimizationUsed', optimizationEnabled ? '1' : '0');
+        params.append('runs', optimizationRuns.toString());
+        params.append('evmversion', evmVersion);
+        libraries.forEach((library, index) => {
+          params.append(`libraryname${index + 1}`, library.name);
+          params.append(`libraryaddress${index + 1}`, library.address);
+        });
+      }
+
+      if (payload.constructorArguments) {
+        params.append('constructorArguments', payload.constructorArguments);
+      }
+      
+      // Log request for debugging
+      console.log(`[${this.name} API] Verification request:`, {
+        chainId: payload.chainId,
+        contractAddress: payload.contractAddress,
+        contractName: payload.contractName,
+        compilerVersion: compilerVersion,
+        optimizationEnabled,
+        optimizationRuns,
+        evmVersion,
+        codeFormat: isVyper ? 'vyper-json' : input || useStandardJson ? 'solidity-standard-json-input' : 'solidity-single-file',
+        hasConstructorArgs: !!payload.constructorArguments,
+      });
+
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: params.toString(),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      
+      // Log full response for debugging
+      console.log(`[${this.name} API] Verification response:`, JSON.stringify(data, null, 2));
+
+      if (data.status === '1') {
+        return {
+          success: true,
+          message: 'Contract verification submitted successfully',
+          guid: data.result,
+          response: data,
+        };
+      } else {
+        return {
+          success: false,
+          message: data.result || 'Verification failed',
+          retryable: CONTRACT_NOT_INDEXED.test(data.result ?? ''),
+          response: data,
+        };
+      }
+    } catch (error) {
+      console.error('Verification error:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
+  async checkVerificationStatus(guid: string, network: Network): Promise<VerificationStatus> {
+    const chainId = network.chainId;
+    const configurationError = this.getConfigurationError(network);
+    if (configurationError) {
+      return {
+        success: false,
+        status: configurationError,
+      };
+    }
+    const apiKey = this.getApiKey(network);
+
+    try {
+      // For status checks, chainid must be in URL query string (not in params to avoid duplication)
+      const url = new URL(this.getApiUrl(network)!);
+      url.searchParams.set('module', 'contract');
+      url.searchParams.set('action', 'checkverifystatus');
+      url.searchParams.set('guid', guid);
+      if (apiKey) {
+        url.searchParams.set('apikey', apiKey);
+      }
+      
+      console.log(`[${this.name} API] Status check request:`, { chainId, guid });
+      
+      const response = await fetch(url);
+      const data = await response.json();
+      
+      console.log(`[${this.name} API] Status check response:`, JSON.stringify(data, null, 2));
+
+      return {
+        success: data.status === '1',
+        status: data.result || 'Unknown status',
+        ...(data.status === '1' ? { matchType: 'full' as const } : {}),
+        retryable: data.status !== '1' && CONTRACT_NOT_INDEXED.test(data.result ?? ''),
+        response: data,
+      };
+    } catch (error) {
+      console.error('Status check error:', error);
+      return {
+        success: false,
+        status: 'Failed to check status',
+      };
+    }
+  }
+
+  async linkProxy(proxyAddress: string, implementationAddress: string, network: Network): Promise<VerificationSubmission> {
+    const configurationError = this.getConfigurationError(network);
+    if (configurationError) {
+      return {
+        success: false,
+        message: configurationError,
+      };
+    }
+    const apiKey = this.getApiKey(network);
+
+    try {
+      const params = new URLSearchParams({
+        chainid: network.chainId.toString(),
+        module: 'contract',
+        action: 'verifyproxycontract',
+        address: proxyAddress,
+        expectedimplementation: implementationAddress,
+      });
+      if (apiKey) {
+        params.append('apikey', apiKey);
+      }
+
+      console.log(`[${this.name} API] Proxy link request:`, { chainId: network.chainId, proxyAddress, implementationAddress });
+
+      const response = await fetch(this.getApiUrl(network)!, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: params.toString(),
+      });
+      const data = await response.json();
+
+      console.log(`[${this.name} API] Proxy link response:`, JSON.stringify(data, null, 2));
+
+      return data.status === '1'
+        ? { success: true, message: 'Proxy link submitted successfully', guid: data.result, response: data }
+        : { success: false, message: data.result || 'Proxy link failed', response: data };
+    } catch (error) {
+      console.error('Proxy link error:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
+  async checkProxyLinkStatus(guid: string, network: Network): Promise<VerificationStatus> {
+    const configurationError = this.getConfigurationError(network);
+    if (configurationError) {
+      return {
+        success: false,
+        status: configurationError,
+      };
+    }
+    const apiKey = this.getApiKey(network);
+
+    try {
+      const url = new URL(this.getApiUrl(network)!);
+      url.searchParams.set('module', 'contract');
+      url.searchParams.set('action', 'checkproxyverification');
+      url.searchParams.set('guid', guid);
+      if (apiKey) {
+        url.searchParams.set('apikey', apiKey);
+      }
+
+      const response = await fetch(url);
+      const data = await response.json();
+
+      console.log(`[${this.name} API] Proxy link status response:`, JSON.stringify(data, null, 2));
+
+      return {
+        success: data.status === '1',
+        status: data.result || 'Unknown status',
+        response: data,
+      };
+    } catch (error) {
+      console.error('Proxy link status check error:', error);
+      return {
+        success: false,
+        status: 'Failed to check status',
+      };
+    }
+  }
+}
+
+/**
+ * Any explorer speaking Etherscan's API (BscScan, Snowtrace, self-hosted explorers)
+ * at the network's blockExplorerApiUrl. Keys come from EXPLORER_API_KEYS and are
+ * optional, since private explorers often don't need one.
+ */
+export class EtherscanCompatibleVerifier extends EtherscanVerifier {
+  readonly name: VerificationProviderName = 'etherscan-compatible';
+
+  protected getApiKey(network: Network): string | null {
+    return config.EXPLORER_API_KEYS[network.chainId] ?? null;
+  }
+
+  protected getApiUrl(network: Network): string | null {
+    return network.blockExplorerApiUrl ?? null;
+  }
+
+  protected getConfigurationError(network: Network): string | null {
+    return this.getApiUrl(network) ? null : `No block explorer API URL configured for ${network.name}`;
+  }
+}
@@ -1,160 +1,508 @@
 /**
  * Contract Flattener
- * 
- * Flattens Solidity contracts by resolving imports and inlining all dependencies.
- * This is necessary for single-file verification on block explorers like Etherscan.
+ *
+ * Flattens a multi-source Solidity compile into one file for single-file verification
+ * on block explorers. Works from solc's source unit ASTs, so import aliases, per-file
+ * licenses and pragmas survive flattening.
  */
 
-interface FlattenedContract {
-  source: string;
-  licenseIdentifier: string;
+type Version = [number, number, number];
+
+interface VersionBound {
+  version: Version;
+  inclusive: boolean;
 }
 
-export class ContractFlattener {
-  /**
-   * Resolve a relative import path against the current file's canonical path
-   * Mirrors Solidity's import resolution logic
-   */
-  private resolveRelativePath(currentCanonicalPath: string, importPath: string): string {
-    if (!importPath.startsWith("./") && !importPath.startsWith("../")) {
-      // Not a relative import, return as-is
-      return importPath;
+// One interval of compiler versions; a missing bound is unbounded
+interface VersionRange {
+  lower?: VersionBound;
+  upper?: VersionBound;
+}
+
+// Replace the bytes [start, end) of a source with `text`
+interface SourceEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const VERSION_PART = String.raw`(?:\d+|[xX*])`;
+const PARTIAL_VERSION = String.raw`${VERSION_PART}(?:\.${VERSION_PART}){0,2}`;
+const COMPARATOR_PATTERN = new RegExp(String.raw`^(\^|~|>=|<=|>|<|=)?\s*(${PARTIAL_VERSION})`);
+const HYPHEN_RANGE_PATTERN = new RegExp(String.raw`^(${PARTIAL_VERSION})\s+-\s+(${PARTIAL_VERSION})$`);
+const SPDX_COMMENT_PATTERN = /\/\/\s*SPDX-License-Identifier:.*$|\/\*\s*SPDX-License-Identifier:[\s\S]*?\*\//gm;
+
+function compareVersions(a: Version, b: Version): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+// Numeric parts of a partial version, up to the first wildcard ("0.8.x" -> [0, 8])
+function parsePartialVersion(text: string): number[] {
+  const parts: number[] = [];
+  for (const part of text.split(".")) {
+    if (!/^\d+$/.test(part)) {
+      break;
+    }
+    parts.push(parseInt(part, 10));
+  }
+  return parts;
+}
+
+function padVersion(parts: number[]): Version {
+  return [parts[0] ?? 0, parts[1] ?? 0, parts[2] ?? 0];
+}
+
+// Smallest version above every version matching the partial, e.g. 0.8 -> 0.9.0
+function bumpVersion(parts: number[], index: number): Version {
+  const bumped = padVersion(parts.slice(0, index + 1));
+  bumped[index] += 1;
+  return bumped;
+}
+
+/**
+ * Range for one comparator, following solc's (npm-like) semantics for partial
+ * versions, caret and tilde ranges
+ */
+function comparatorRange(operator: string, parts: number[]): VersionRange | null {
+  const exact = parts.length === 3;
+  const lower = padVersion(parts);
+  const next = parts.length > 0 ? bumpVersion(parts, parts.length - 1) : undefined;
+
+  switch (operator) {
+    case "":
+    case "=":
+      if (exact) {
+        return { lower: { version: lower, inclusive: true }, upper: { version: lower, inclusive: true } };
+      }
+      return { lower: { version: lower, inclusive: true }, upper: next && { version: next, inclusive: false } };
+    case ">=":
+      return { lower: { version: lower, inclusive: true } };
+    case ">":
+      if (!next) {
+        return null;
+      }
+      return exact ? { lower: { version: lower, inclusive: false } } : { lower: { version: next, inclusive: true } };
+    case "<":
+      return parts.length > 0 ? { upper: { version: lower, inclusive: false } } : null;
+    case "<=":
+      if (!next) {
+        return {};
+      }
+      return exact ? { upper: { version: lower, inclusive: true } } : { upper: { version: next, inclusive: false } };
+    case "^": {
+      const firstNonZero = parts.findIndex((part) => part !== 0);
+      const bumpIndex = firstNonZero >= 0 ? firstNonZero : parts.length - 1;
+      return {
+        lower: { version: lower, inclusive: true },
+        upper: bumpIndex >= 0 ? { version: bumpVersion(parts, bumpIndex), inclusive: false } : undefined,
+      };
+    }
+    case "~":
+      return {
+        lower: { version: lower, inclusive: true },
+        upper: parts.length > 0 ? { version: bumpVersion(parts, Math.min(parts.length - 1, 1)), inclusive: false } : undefined,
+      };
+    default:
+      return null;
+  }
+}
+
+function isEmptyRange(range: VersionRange): boolean {
+  if (!range.lower || !range.upper) {
+    return false;
+  }
+  const comparison = compareVersions(range.lower.version, range.upper.version);
+  return comparison > 0 || (comparison === 0 && !(range.lower.inclusive && range.upper.inclusive));
+}
+
+function intersectRanges(a: VersionRange, b: VersionRange): VersionRange {
+  const pickLower = (x?: VersionBound, y?: VersionBound) => {
+    if (!x || !y) return x ?? y;
+    const comparison = compareVersions(x.version, y.version);
+    return comparison > 0 || (comparison === 0 && !x.inclusive) ? x : y;
+  };
+  const pickUpper = (x?: VersionBound, y?: VersionBound) => {
+    if (!x || !y) return x ?? y;
+    const comparison = compareVersions(x.version, y.version);
+    return comparison < 0 || (comparison === 0 && !x.inclusive) ? x : y;
+  };
+  return { lower: pickLower(a.lower, b.lower), upper: pickUpper(a.upper, b.upper) };
+}
+
+/**
+ * Parse a `pragma solidity` constraint (e.g. ">=0.6.0 <0.9.0 || ^0.5.0") into the
+ * version ranges it allows. Throws on syntax solc wouldn't accept either.
+ */
+function parseVersionConstraint(constraint: string): VersionRange[] {
+  return constraint.split("||").map((alternative) => {
+    const text = alternative.trim();
+
+    const hyphen = text.match(HYPHEN_RANGE_PATTERN);
+    if (hyphen) {
+      return intersectRanges(
+        comparatorRange(">=", parsePartialVersion(hyphen[1]))!,
+        comparatorRange("<=", parsePartialVersion(hyphen[2]))!
+      );
     }
 
-    // Split the current path into directory parts (remove filename)
-    const currentParts = currentCanonicalPath.split("/").slice(0, -1);
-    const importParts = importPath.split("/");
-    
-    // Process each part of the import path
-    for (const part of importParts) {
-      if (part === "..") {
-        currentParts.pop();
-      } else if (part !== ".") {
-        currentParts.push(part);
+    let range: VersionRange = {};
+    let rest = text;
+    while (rest) {
+      const match = rest.match(COMPARATOR_PATTERN);
+      const comparator = match && comparatorRange(match[1] ?? "", parsePartialVersion(match[2]));
+      if (!match || !comparator) {
+        throw new Error(`Unsupported version pragma "${constraint}"`);
       }
+      range = intersectRanges(range, comparator);
+      rest = rest.slice(match[0].length).trimStart();
     }
-    
-    return currentParts.join("/");
+    return range;
+  });
+}
+
+function formatVersionRange(range: VersionRange): string {
+  const format = (version: Version) => version.join(".");
+  if (range.lower && range.upper && compareVersions(range.lower.version, range.upper.version) === 0) {
+    return format(range.lower.version);
+  }
+
+  const comparators: string[] = [];
+  if (range.lower) {
+    comparators.push(`${range.lower.inclusive ? ">=" : ">"}${format(range.lower.version)}`);
+  }
+  if (range.upper) {
+    comparators.push(`${range.upper.inclusive ? "<=" : "<"}${format(range.upper.version)}`);
+  }
+  return comparators.length > 0 ? comparators.join(" ") : ">=0.0.0";
+}
+
+/**
+ * Intersect `pragma solidity` constraints into the one constraint every file accepts
+ */
+export function intersectVersionPragmas(constraints: string[]): string {
+  let ranges: VersionRange[] = [{}];
+  for (const constraint of constraints) {
+    const alternatives = parseVersionConstraint(constraint);
+    ranges = ranges
+      .flatMap((range) => alternatives.map((alternative) => intersectRanges(range, alternative)))
+      .filter((range) => !isEmptyRange(range));
+  }
+
+  if (ranges.length === 0) {
+    throw new Error(`No compiler version satisfies every pragma: ${constraints.join(", ")}`);
+  }
+  return Array.from(new Set(ranges.map(formatVersionRange))).join(" || ");
+}
+
+/**
+ * Combine SPDX license expressions into one, e.g. ["MIT", "Apache-2.0"] -> "MIT AND Apache-2.0"
+ */
+export function combineLicenses(licenses: string[]): string {
+  const unique = Array.from(new Set(licenses.map((license) => license.trim()).filter(Boolean)));
+  if (unique.length === 0) {
+    return "UNLICENSED";
   }
+  if (unique.length === 1) {
+    return unique[0];
+  }
+  return unique.map((license) => (/\s(AND|OR)\s/.test(license) ? `(${license})` : license)).join(" AND ");
+}
 
+// "start:length:sourceIndex" -> byte range
+function parseSrc(src: string): { start: number; end: number } {
+  const [start, length] = src.split(":").map((part) => parseInt(part, 10));
+  return { start, end: start + length };
+}
+
+// Visit every AST node below `node`, depth-first
+function walkAst(node: any, visit: (node: any) => void): void {
+  if (Array.isArray(node)) {
+    node.forEach((child) => walkAst(child, visit));
+    return;
+  }
+  if (!node || typeof node !== "object") {
+    return;
+  }
+  if (node.nodeType) {
+    visit(node);
+  }
+  for (const value of Object.values(node)) {
+    if (value && typeof value === "object") {
+      walkAst(value, visit);
+    }
+  }
+}
+
+export class ContractFlattener {
   /**
-   * Flatten a Solidity contract by resolving all imports
-   * @param mainSource The main contract source code
-   * @param resolvedSources Map of resolved import paths to their source code
-   * @returns Flattened contract source code
+   * Source units reachable from the main file, dependencies before the files importing them
    */
-  flatten(mainSource: string, resolvedSources: Map<string, string>): string {
-    const licensePattern = /\/\/ SPDX-License-Identifier: (.+)/;
-    const pragmaPattern = /pragma solidity ([\^>=<\s\d.]+);/g;
-    const importPattern = /import\s+(?:(?:{[^}]+})|(?:"[^"]+"|'[^']+'))\s+from\s+["']([^"']+)["'];|import\s+["']([^"']+)["'];/g;
-
-    // Extract license and pragma from main source
-    const licenseMatch = mainSource.match(licensePattern);
-    const license = licenseMatch ? licenseMatch[1] : "MIT";
-    
-    const pragmaMatches = Array.from(mainSource.matchAll(pragmaPattern));
-    const pragma = pragmaMatches.length > 0 ? pragmaMatches[0][0] : "pragma solidity ^0.8.0;";
-
-    // Track which sources have been included to avoid duplicates
-    const includedSources = new Set<string>();
-    const processedContent: string[] = [];
-
-    // Process imports recursively with canonical path tracking
-    const processImports = (source: string, canonicalPath: string = "main.sol") => {
-      if (includedSources.has(canonicalPath)) {
+  private orderSourceUnits(asts: Record<string, any>, mainPath: string): string[] {
+    const ordered: string[] = [];
+    const visited = new Set<string>();
+
+    const visit = (sourceName: string) => {
+      if (visited.has(sourceName) || !asts[sourceName]) {
         return;
       }
-      includedSources.add(canonicalPath);
-
-      // Find all imports in this source
-      const imports = Array.from(source.matchAll(importPattern));
-      
-      // Process each import first (depth-first)
-      for (const match of imports) {
-        const importPath = match[1] || match[2];
-        
-        // Resolve the import path to its canonical form
-        let resolvedCanonicalPath: string;
-        
-        if (importPath.startsWith("./") || importPath.startsWith("../")) {
-          // Relative import - resolve against current file's canonical path
-          resolvedCanonicalPath = this.resolveRelativePath(canonicalPath, importPath);
-          
-          // Try with OpenZeppelin prefix if not found directly
-          if (!resolvedSources.has(resolvedCanonicalPath)) {
-            resolvedCanonicalPath = `@openzeppelin/contracts/${resolvedCanonicalPath}`;
-          }
-        } else {
-          // Absolute import (like @openzeppelin/...)
-          resolvedCanonicalPath = importPath;
+      visited.add(sourceName);
+      for (const node of asts[sourceName].nodes) {
+        if (node.nodeType === "ImportDirective") {
+          visit(node.absolutePath);
         }
-        
-        // Look up the resolved source
-        if (resolvedSources.has(resolvedCanonicalPath)) {
-          processImports(resolvedSources.get(resolvedCanonicalPath)!, resolvedCanonicalPath);
+      }
+      ordered.push(sourceName);
+    };
+
+    visit(mainPath);
+    return ordered;
+  }
+
+  /**
+   * Flattened names of the top-level declarations by AST id. Every declaration ends up
+   * in the same file scope, so a name already declared by an earlier source unit gets
+   * a numeric suffix (`Foo` -> `Foo_1`).
+   */
+  private nameDeclarations(asts: Record<string, any>, sourceNames: string[]): Map<number, string> {
+    const declarationNames = new Map<number, string>();
+    const declarations = sourceNames.flatMap((sourceName) =>
+      asts[sourceName].nodes
+        .filter((node: any) => node.name && node.nodeType !== "ImportDirective")
+        .map((node: any) => ({ sourceName, node })),
+    );
+
+    const taken = new Set<string>(declarations.map(({ node }) => node.name));
+    const declaredIn = new Map<string, string>(); // Name -> source unit that keeps it
+    const renamed = new Map<string, string>(); // "sourceName:name" -> suffixed name
+    for (const { sourceName, node } of declarations) {
+      const owner = declaredIn.get(node.name);
+      if (owner === undefined || owner === sourceName) {
+        // Overloaded free functions share a name within one source unit
+        declaredIn.set(node.name, sourceName);
+        declarationNames.set(node.id, node.name);
+        continue;
+      }
+
+      const key = `${sourceName}:${node.name}`;
+      if (!renamed.has(key)) {
+        let suffix = 1;
+        while (taken.has(`${node.name}_${suffix}`)) {
+          suffix++;
         }
+        taken.add(`${node.name}_${suffix}`);
+        renamed.set(key, `${node.name}_${suffix}`);
+      }
+      declarationNames.set(node.id, renamed.get(key)!);
+    }
+
+    return declarationNames;
+  }
+
+  /**
+   * Edits that rename the source unit's own top-level declarations that collided with
+   * an earlier source unit's
+   */
+  private collectDeclarationEdits(ast: any, content: Buffer, declarationNames: Map<number, string>): SourceEdit[] {
+    const edits: SourceEdit[] = [];
+    for (const node of ast.nodes) {
+      const name = declarationNames.get(node.id);
+      if (!name || name === node.name) {
+        continue;
       }
 
-      // Remove license, pragma, and imports from this source
-      let cleanedSource = source
-        .replace(licensePattern, '') // Remove license
-        .replace(pragmaPattern, '') // Remove pragma
-        .replace(importPattern, ''); // Remove imports
+      let range: { start: number; end: number } | undefined;
+      if (node.nameLocation) {
+        range = parseSrc(node.nameLocation);
+      } else {
+        // Compilers before 0.8.2 don't record where the name is; it's the first whole
+        // word match after the keyword (latin1 keeps string offsets equal to byte offsets)
+        const { start, end } = parseSrc(node.src);
+        const pattern = new RegExp(String.raw`(?<![\w$])${node.name.replace(/\$/g, "\\$")}(?![\w$])`);
+        const match = pattern.exec(content.subarray(start, end).toString("latin1"));
+        if (match) {
+          range = { start: start + match.index, end: start + match.index + node.name.length };
+        }
+      }
+      if (range) {
+        edits.push({ ...range, text: name });
+      }
+    }
+    return edits;
+  }
 
-      // Clean up extra whitespace
-      cleanedSource = cleanedSource.trim();
+  /**
+   * Edits that rewrite references through import aliases, and to renamed declarations,
+   * to the declarations' flattened names, since every declaration ends up in the same
+   * file scope: `import {A as B}` turns `B` into `A`, `import "x" as L` turns `L.Foo`
+   * into `Foo`.
+   */
+  private collectAliasEdits(
+    ast: any,
+    content: Buffer,
+    declarationNames: Map<number, string>,
+    asts: Record<string, any>,
+  ): SourceEdit[] {
+    const edits: SourceEdit[] = [];
+    const unitAliases = new Map<string, string>(); // Alias -> aliased source unit name
 
-      if (cleanedSource) {
-        processedContent.push(cleanedSource);
+    for (const node of ast.nodes) {
+      if (node.nodeType === "ImportDirective" && node.unitAlias) {
+        unitAliases.set(node.unitAlias, node.absolutePath);
       }
+    }
+
+    // Flattened name of a top-level name as seen from a source unit, through its
+    // exported symbols (which include imported names under their local aliases)
+    const resolveName = (sourceName: string | undefined, name: string): string | undefined => {
+      const exported = sourceName ? asts[sourceName]?.exportedSymbols : ast.exportedSymbols;
+      const ids: number[] = exported?.[name] ?? [];
+      return ids.map((id) => declarationNames.get(id)).find((resolved) => resolved !== undefined);
     };
 
-    // Process all sources starting from main
-    processImports(mainSource);
+    // Rewrite a (possibly dotted) path like "L.Foo.Bar" or "B.Bar"
+    const rewritePath = (node: any, path: string) => {
+      const segments = path.split(".").map((segment) => segment.trim());
+      let scope: string | undefined;
+      while (segments.length > 1 && unitAliases.has(segments[0])) {
+        scope = unitAliases.get(segments.shift()!);
+      }
+      if (segments.length === 1 && declarationNames.has(node.referencedDeclaration)) {
+        segments[0] = declarationNames.get(node.referencedDeclaration)!;
+      } else if (segments.length > 1) {
+        segments[0] = resolveName(scope, segments[0]) ?? segments[0];
+      }
+
+      const rewritten = segments.join(".");
+      if (rewritten !== path) {
+        edits.push({ ...parseSrc(node.src), text: rewritten });
+      }
+    };
+
+    const body = ast.nodes.filter((node: any) => node.nodeType !== "ImportDirective" && node.nodeType !== "PragmaDirective");
+    walkAst(body, (node) => {
+      switch (node.nodeType) {
+        case "Identifier":
+          if (node.typeDescriptions?.typeString?.startsWith("module ")) {
+            // `L` in `L.Foo`: drop the alias and its dot
+            const { start, end } = parseSrc(node.src);
+            let dot = end;
+            while (dot < content.length && /\s/.test(String.fromCharCode(content[dot]))) {
+              dot++;
+            }
+            if (content[dot] === 0x2e) {
+              edits.push({ start, end: dot + 1, text: "" });
+            }
+          } else {
+            rewritePath(node, node.name);
+          }
+          break;
+        case "MemberAccess":
+          // `Foo` in `L.Foo` once `L.` is dropped; the member name ends the expression
+          if (
+            node.expression?.typeDescriptions?.typeString?.startsWith("module ") &&
+            declarationNames.has(node.referencedDeclaration) &&
+            declarationNames.get(node.referencedDeclaration) !== node.memberName
+          ) {
+            const range = node.memberLocation
+              ? parseSrc(node.memberLocation)
+              : { start: parseSrc(node.src).end - node.memberName.length, end: parseSrc(node.src).end };
+            edits.push({ ...range, text: declarationNames.get(node.referencedDeclaration)! });
+          }
+          break;
+        case "IdentifierPath":
+          rewritePath(node, node.name);
+          break;
+        case "UserDefinedTypeName":
+          // Compilers before 0.8.0 put the path on the type name instead of an IdentifierPath
+          if (!node.pathNode && node.name) {
+            rewritePath(node, node.name);
+          }
+          break;
+      }
+    });
 
-    // Assemble the flattened contract
-    const flattened = [
-      `// SPDX-License-Identifier: ${license}`,
-      pragma,
-      '',
-      '// This file was flattened using a custom flattening tool',
-      '// All imports have been resolved and inlined',
-      '',
-      ...processedContent
-    ].join('\n');
+    return edits;
+  }
 
-    return flattened;
+  private applyEdits(content: Buffer, edits: SourceEdit[]): string {
+    const parts: Buffer[] = [];
+    let position = 0;
+    for (const edit of [...edits].sort((a, b) => a.start - b.start)) {
+      if (edit.start < position) {
+        continue; // Overlaps an earlier edit
+      }
+      parts.push(content.subarray(position, edit.start), Buffer.from(edit.text));
+      position = edit.end;
+    }
+    parts.push(content.subarray(position));
+    return Buffer.concat(parts).toString("utf8");
   }
 
   /**
-   * Simple flatten function for cases where we don't have resolved sources
-   * This removes imports and leaves the contract as-is (will fail if imports are needed)
+   * Flatten a compiled Solidity source and everything it imports into one file
+   * @param sources Standard JSON input sources the compile used
+   * @param asts Source unit name -> AST from the compiler output
+   * @param mainPath Source unit name of the main contract
+   * @returns Flattened contract source code
    */
-  flattenSimple(source: string): string {
-    const licensePattern = /\/\/ SPDX-License-Identifier: (.+)/;
-    const pragmaPattern = /pragma solidity ([\^>=<\s\d.]+);/;
-    const importPattern = /import\s+(?:(?:{[^}]+})|(?:"[^"]+"|'[^']+'))\s+from\s+["']([^"']+)["'];|import\s+["']([^"']+)["'];/g;
-
-    const licenseMatch = source.match(licensePattern);
-    const license = licenseMatch ? licenseMatch[1] : "MIT";
-    
-    const pragmaMatch = source.match(pragmaPattern);
-    const pragma = pragmaMatch ? pragmaMatch[0] : "pragma solidity ^0.8.0;";
-
-    // Remove imports
-    let cleanedSource = source
-      .replace(licensePattern, '')
-      .replace(pragmaPattern, '')
-      .replace(importPattern, '');
-
-    cleanedSource = cleanedSource.trim();
-
-    return [
-      `// SPDX-License-Identifier: ${license}`,
-      pragma,
-      '',
-      cleanedSource
-    ].join('\n');
+  flatten(sources: Record<string, { content: string }>, asts: Record<string, any>, mainPath: string): string {
+    if (!asts[mainPath]) {
+      throw new Error(`No AST for ${mainPath}; flattening needs the compiler's "ast" output`);
+    }
+
+    const sourceNames = this.orderSourceUnits(asts, mainPath);
+
+    const declarationNames = this.nameDeclarations(asts, sourceNames);
+
+    const licenses: string[] = [];
+    const versionConstraints: string[] = [];
+    const otherPragmas = new Set<string>(); // e.g. "pragma abicoder v2;"
+    const bodies: string[] = [];
+
+    for (const sourceName of sourceNames) {
+      const ast = asts[sourceName];
+      const content = Buffer.from(sources[sourceName]?.content ?? "", "utf8");
+
+      const license = ast.license ?? content.toString("utf8").match(/SPDX-License-Identifier:\s*([^\n*]+)/)?.[1];
+      if (license) {
+        licenses.push(license.trim());
+      }
+
+      // Pragmas are hoisted into the header and imports are satisfied by inlining
+      const edits = [
+        ...this.collectDeclarationEdits(ast, content, declarationNames),
+        ...this.collectAliasEdits(ast, content, declarationNames, asts),
+      ];
+      for (const node of ast.nodes) {
+        if (node.nodeType !== "ImportDirective" && node.nodeType !== "PragmaDirective") {
+          continue;
+        }
+        const range = parseSrc(node.src);
+        edits.push({ ...range, text: "" });
+
+        if (node.nodeType === "PragmaDirective") {
+          const text = content.subarray(range.start, range.end).toString("utf8");
+          if (node.literals[0] === "solidity") {
+            versionConstraints.push(text.replace(/^pragma\s+solidity\s*/, "").replace(/;$/, "").trim());
+          } else {
+            otherPragmas.add(text.replace(/\s+/g, " "));
+          }
+        }
+      }
+
+      const body = this.applyEdits(content, edits).replace(SPDX_COMMENT_PATTERN, "").trim();
+      if (body) {
+        bodies.push(`// File: ${sourceName}\n\n${body}`);
+      }
+    }
+
+    const header = [
+      `// SPDX-License-Identifier: ${combineLicenses(licenses)}`,
+      ...(versionConstraints.length > 0 ? [`pragma solidity ${intersectVersionPragmas(versionConstraints)};`] : []),
+      ...Array.from(otherPragmas),
+    ];
+
+    return [...header, "", ...bodies.flatMap((body) => [body, ""])].join("\n");
   }
 }
 
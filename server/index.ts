@@ -5,6 +5,9 @@ import { pool } from "./db";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { seedTemplates } from "./seed-templates";
+import { verificationPoller } from "./verification-poller";
+import { deploymentWatcher } from "./deployment-watcher";
+import { compilationCacheCleaner } from "./compilation-cache-cleaner";
 import { config } from "../config"; // dotenv is loaded here
 
 const app = express();
@@ -87,6 +90,18 @@ app.use((req, res, next) => {
   // Seed contract templates on startup
   await seedTemplates();
 
+  // pm2 cluster mode runs one process per core; the background jobs only need one of them
+  if ((process.env.NODE_APP_INSTANCE ?? "0") === "0") {
+    // Keep pending verifications moving without anyone clicking "Check Status"
+    verificationPoller.start();
+
+    // Follow deployment transactions even after the browser tab that sent them is closed
+    deploymentWatcher.start();
+
+    // Drop cached compiler output nobody has used in a while
+    compilationCacheCleaner.start();
+  }
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -0,0 +1,224 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { config } from "../config";
+
+// Released in lockstep; a compile's OpenZeppelin version pins both
+export const OPENZEPPELIN_PACKAGES = ["@openzeppelin/contracts", "@openzeppelin/contracts-upgradeable"];
+
+// Versions used when a workspace doesn't pin a package
+const DEFAULT_PACKAGE_VERSIONS: Record<string, string> = {
+  "@openzeppelin/contracts": "5.0.0",
+  "@openzeppelin/contracts-upgradeable": "5.0.0",
+};
+
+// Foundry-style import prefixes for packages that keep their sources under src/ on npm
+const DEFAULT_REMAPPINGS = [
+  "solmate/=solmate/src/",
+  "solady/=solady/src/",
+];
+
+// Exact versions only; tags like "latest" can change, so they're resolved to one before anything is stored on disk
+const EXACT_VERSION = /^\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?$/;
+
+// How long a dist-tag keeps resolving to the same version before the CDN is asked again (1 hour)
+const DIST_TAG_TTL = 60 * 60 * 1000;
+
+// Exact versions dist-tags resolved to, keyed by "name@tag"
+const resolvedDistTags = new Map<string, { version: Promise<string>; resolvedAt: number }>();
+
+async function fetchDistTag(packageName: string, tag: string): Promise<string> {
+  const url = `${config.PACKAGE_CDN_URL}/${packageName}@${tag}/package.json`;
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error: any) {
+    throw new Error(`Could not resolve ${packageName}@${tag}: ${error.message}`);
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      response.status === 404
+        ? `Package ${packageName}@${tag} does not exist`
+        : `Could not resolve ${packageName}@${tag}: HTTP ${response.status}`
+    );
+  }
+
+  const { version } = await response.json();
+  if (typeof version !== "string" || !EXACT_VERSION.test(version)) {
+    throw new Error(`Could not resolve ${packageName}@${tag} to an exact version`);
+  }
+  return version;
+}
+
+/**
+ * Exact version a dist-tag (e.g. "latest") currently points at
+ */
+function resolveDistTag(packageName: string, tag: string): Promise<string> {
+  const key = `${packageName}@${tag}`;
+  const cached = resolvedDistTags.get(key);
+  if (cached && Date.now() - cached.resolvedAt < DIST_TAG_TTL) {
+    return cached.version;
+  }
+
+  const version = fetchDistTag(packageName, tag);
+  resolvedDistTags.set(key, { version, resolvedAt: Date.now() });
+  // Failures aren't cached; the next compile tries again
+  version.catch(() => resolvedDistTags.delete(key));
+  return version;
+}
+
+export interface Remapping {
+  context: string; // Only applies to imports from source units starting with this prefix ("" = everywhere)
+  prefix: string;
+  target: string;
+}
+
+export interface PackageResolverOptions {
+  packages?: Record<string, string>; // Package name -> version, e.g. { "solmate": "6.2.0" }
+  remappings?: string[]; // solc remapping syntax: "[context:]prefix=target"
+}
+
+/**
+ * Parse remappings in solc syntax, ignoring blank lines and comments
+ */
+export function parseRemappings(lines: string[]): Remapping[] {
+  return lines
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .flatMap((line) => {
+      const match = line.match(/^(?:([^:=]*):)?([^=]+)=(.*)$/);
+      if (!match) {
+        return [];
+      }
+      return [{ context: match[1] ?? "", prefix: match[2], target: match[3] }];
+    });
+}
+
+/**
+ * Apply the longest matching remapping, as solc does. Later remappings win ties.
+ */
+export function applyRemappings(importPath: string, fromFile: string, remappings: Remapping[]): string {
+  let best: Remapping | undefined;
+  for (const remapping of remappings) {
+    if (!fromFile.startsWith(remapping.context) || !importPath.startsWith(remapping.prefix)) {
+      continue;
+    }
+    if (
+      !best ||
+      remapping.context.length > best.context.length ||
+      (remapping.context.length === best.context.length && remapping.prefix.length >= best.prefix.length)
+    ) {
+      best = remapping;
+    }
+  }
+
+  return best ? best.target + importPath.slice(best.prefix.length) : importPath;
+}
+
+/**
+ * Split "@scope/name/path/File.sol" or "name/path/File.sol" into package name and file path
+ */
+export function splitPackagePath(importPath: string): { name: string; filePath: string } | null {
+  const segments = importPath.split("/");
+  const nameLength = importPath.startsWith("@") ? 2 : 1;
+  // ".." segments would escape the package (and the vendored store directory)
+  if (segments.length <= nameLength || segments.some((s) => !s || s === "..")) {
+    return null;
+  }
+
+  return {
+    name: segments.slice(0, nameLength).join("/"),
+    filePath: segments.slice(nameLength).join("/"),
+  };
+}
+
+export class PackageResolver {
+  private readonly remappings: Remapping[];
+  private readonly packages: Record<string, string>;
+  private readonly usedPackages = new Map<string, string>();
+
+  constructor(options: PackageResolverOptions = {}) {
+    this.remappings = parseRemappings([
+      ...DEFAULT_REMAPPINGS,
+      ...config.SOLC_REMAPPINGS,
+      ...(options.remappings ?? []),
+    ]);
+    this.packages = { ...DEFAULT_PACKAGE_VERSIONS, ...options.packages };
+  }
+
+  /**
+   * Remapped path for an import, before package lookup
+   */
+  remap(importPath: string, fromFile: string): string {
+    return applyRemappings(importPath, fromFile, this.remappings);
+  }
+
+  /**
+   * Exact version to load a package at. Tags, including "latest" for packages the workspace
+   * doesn't pin, are resolved once and pinned for the rest of the compile, so every file
+   * comes from the same release and gets vendored under it.
+   */
+  async resolveVersion(packageName: string): Promise<string> {
+    const requested = this.packages[packageName] ?? "latest";
+    if (EXACT_VERSION.test(requested)) {
+      return requested;
+    }
+
+    const version = await resolveDistTag(packageName, requested);
+    this.packages[packageName] = version;
+    return version;
+  }
+
+  /**
+   * Packages that files were actually loaded from, with the version used
+   */
+  getUsedPackages(): Record<string, string> {
+    return Object.fromEntries(Array.from(this.usedPackages.entries()));
+  }
+
+  /**
+   * Load a package file from the vendored store, or fetch it from the npm CDN and
+   * vendor it. Throws with a message suitable for showing next to the import.
+   */
+  async fetch(remappedPath: string): Promise<string> {
+    const parsed = splitPackagePath(remappedPath);
+    if (!parsed) {
+      throw new Error(`"${remappedPath}" is not a package path (expected "<package>/<file>")`);
+    }
+
+    const version = await this.resolveVersion(parsed.name);
+    this.usedPackages.set(parsed.name, version);
+    const storePath = path.join(path.resolve(config.PACKAGE_STORE_DIR), `${parsed.name}@${version}`, parsed.filePath);
+
+    try {
+      return await fs.readFile(storePath, "utf8");
+    } catch {
+      // Not vendored yet
+    }
+
+    const url = `${config.PACKAGE_CDN_URL}/${parsed.name}@${version}/${parsed.filePath}`;
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch (error: any) {
+      throw new Error(`Could not download ${parsed.name}@${version}/${parsed.filePath}: ${error.message}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(
+        response.status === 404
+          ? `${parsed.filePath} does not exist in package ${parsed.name}@${version}`
+          : `Could not download ${parsed.name}@${version}/${parsed.filePath}: HTTP ${response.status}`
+      );
+    }
+
+    const content = await response.text();
+    try {
+      await fs.mkdir(path.dirname(storePath), { recursive: true });
+      await fs.writeFile(storePath, content);
+    } catch (error) {
+      console.warn(`Failed to vendor ${parsed.name}@${version}/${parsed.filePath}:`, error);
+    }
+    return content;
+  }
+}
@@ -1,13 +1,19 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { randomBytes } from "crypto";
-import { compileContract } from "./compiler";
-import { compileRequestSchema, insertDeploymentSchema, verifyContractRequestSchema, createVersionRequestSchema, NETWORKS } from "@shared/schema";
+import { buildStandardJsonInput, compileContract, flattenSources, parseCompilerSettings, type CompileWorkspace } from "./compiler";
+import { compileJobs } from "./compile-jobs";
+import { compileRequestSchema, workspaceCompileRequestSchema, updateWorkspaceDependenciesSchema, importStandardJsonRequestSchema, insertDeploymentSchema, verifyContractRequestSchema, verifyDeploymentRequestSchema, createVersionRequestSchema, NETWORKS, MAX_BULK_VERIFY_DEPLOYMENTS, bulkVerifyRequestSchema, create2CheckRequestSchema, createReleaseRequestSchema, type BulkVerifyOutcome, type CompileRequest, type Deployment, type VerificationProviderName, type WorkspaceFile } from "@shared/schema";
 import { storage } from "./storage";
 import { z } from "zod";
-import { verifyMessage, AbiCoder } from "ethers";
+import { verifyMessage } from "ethers";
 import { parseAbi } from "./abi-parser";
-import { contractVerifier } from "./verifier";
+import { deploymentCompileRequest, loadDeploymentStandardJson } from "./deployment-sources";
+import { verificationPoller } from "./verification-poller";
+import { bytecodeMatcher } from "./bytecode-matcher";
+import { checkCreate2Address } from "./create2";
+import { listCompilerVersions, prewarmSolcVersions } from "./solc-cache";
+import { config } from "../config";
 
 // Secure validation schemas using session-based authentication
 const updateNotesSchema = z.object({
@@ -28,6 +34,10 @@ const verifyRequestSchema = z.object({
   signature: z.string(),
 });
 
+const prewarmCompilersSchema = z.object({
+  versions: z.array(z.string().regex(/^\d+\.\d+\.\d+$/)).optional(),
+});
+
 // Middleware to require wallet authentication
 export function requireWalletAuth(req: Request, res: Response, next: NextFunction) {
   if (!req.session.walletAddress || !req.session.isAuthenticated) {
@@ -37,6 +47,117 @@ export function requireWalletAuth(req: Request, res: Response, next: NextFunctio
   next();
 }
 
+// Middleware to restrict a route to wallets listed in ADMIN_WALLETS
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const walletAddress = req.session.walletAddress?.toLowerCase();
+  if (!walletAddress || !config.ADMIN_WALLETS.includes(walletAddress)) {
+    res.status(403).json({ error: "Admin access required" });
+    return;
+  }
+  next();
+}
+
+type WorkspaceCompileTarget =
+  | { ok: true; request: CompileRequest; workspace: CompileWorkspace }
+  | { ok: false; status: number; error: string };
+
+// Validate a workspace compile request and load the file tree and packages it compiles against
+async function prepareWorkspaceCompile(
+  workspaceId: number,
+  walletAddress: string,
+  body: unknown
+): Promise<WorkspaceCompileTarget> {
+  const { entryPath, sourceCode, ...options } = workspaceCompileRequestSchema.parse(body);
+
+  const workspace = await storage.getWorkspace(workspaceId);
+  if (!workspace) {
+    return { ok: false, status: 404, error: "Workspace not found" };
+  }
+
+  const members = workspace.members as any[];
+  const isMember = members.some((m: any) => m.address?.toLowerCase() === walletAddress.toLowerCase());
+
+  if (!isMember && workspace.createdBy.toLowerCase() !== walletAddress.toLowerCase()) {
+    return { ok: false, status: 403, error: "Not a workspace member" };
+  }
+
+  const files = await storage.getWorkspaceFiles(workspaceId);
+  const workspaceFiles = new Map(
+    files.filter((f) => !f.isDirectory).map((f) => [f.path, f.content])
+  );
+
+  const entryContent = sourceCode ?? workspaceFiles.get(entryPath);
+  if (entryContent === undefined) {
+    return { ok: false, status: 404, error: `File ${entryPath} not found in workspace` };
+  }
+
+  return {
+    ok: true,
+    request: { ...options, sourceCode: entryContent, fileName: entryPath },
+    workspace: { files: workspaceFiles, packages: workspace.packages, remappings: workspace.remappings },
+  };
+}
+
+// Workspace-relative path for an imported source unit, or null when it would escape the workspace
+function toImportedFilePath(sourceName: string): string | null {
+  const segments = sourceName.replace(/^\/+/, "").split("/");
+  if (segments.some((segment) => !segment || segment === "." || segment === "..")) {
+    return null;
+  }
+  return segments.join("/");
+}
+
+// Why a deployment has no contract on chain to check yet, or null when its transaction is mined
+function missingOnChainReason(deployment: Deployment): string | null {
+  switch (deployment.status) {
+    case 'pending':
+      return "The deployment transaction hasn't been mined yet";
+    case 'failed':
+      return "The deployment transaction reverted, so there is no contract to check";
+    case 'dropped':
+      return "The deployment transaction was dropped, so there is no contract to check";
+    default:
+      return null;
+  }
+}
+
+// Submit an unverified deployment, and the implementation behind it when it's a proxy, for verification
+async function submitDeploymentVerification(deployment: Deployment, provider?: VerificationProviderName) {
+  // A proxy's implementation is verified alongside it, and the two are linked once both pass
+  const proxy = await verificationPoller.prepareProxy(deployment, provider);
+
+  // The poller stores the GUID (and the provider it belongs to) and keeps checking in the background
+  const result = await verificationPoller.submit(deployment, provider);
+
+  if (result.outcome === 'pending') {
+    return {
+      success: true,
+      message: proxy
+        ? "Verification of the proxy and its implementation submitted. The proxy is linked once both are verified."
+        : "Verification submitted. Checking status...",
+      verificationUrl: result.verificationUrl,
+      provider: result.provider,
+      status: 'pending' as const,
+      proxy,
+    };
+  }
+  if (result.outcome === 'retry') {
+    return {
+      success: true,
+      message: "The block explorer hasn't indexed the contract yet. Verification will be resubmitted automatically.",
+      verificationUrl: result.verificationUrl,
+      provider: result.provider,
+      status: 'pending' as const,
+      proxy,
+    };
+  }
+  return {
+    success: false,
+    message: result.message || "Failed to submit verification",
+    status: 'failed' as const,
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Authentication routes
   app.post("/api/auth/challenge", async (req, res) => {
@@ -174,6 +295,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/compile", async (req, res) => {
     try {
       const validatedData = compileRequestSchema.parse(req.body);
+      // Checked before imports are fetched, not only once the compile reaches the pool
+      if (!compileJobs.canAccept()) {
+        res.status(503).json({ success: false, error: "Compiler queue is full, please try again shortly" });
+        return;
+      }
+
       const result = await compileContract(validatedData);
       res.json(result);
     } catch (error) {
@@ -191,11 +318,272 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Compile a workspace file with its imports resolved against the workspace file tree
+  app.post("/api/workspaces/:id/compile", requireWalletAuth, async (req, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const target = await prepareWorkspaceCompile(workspaceId, req.session.walletAddress!, req.body);
+      if (!target.ok) {
+        res.status(target.status).json({ success: false, error: target.error });
+        return;
+      }
+      if (!compileJobs.canAccept()) {
+        res.status(503).json({ success: false, error: "Compiler queue is full, please try again shortly" });
+        return;
+      }
+
+      const result = await compileContract(target.request, target.workspace);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid request data",
+        });
+      } else {
+        console.error("Error compiling workspace file:", error);
+        res.status(500).json({
+          success: false,
+          error: "Internal server error",
+        });
+      }
+    }
+  });
+
+  // Standard JSON input exactly as compileContract would send it to the compiler
+  app.post("/api/compile/standard-json", requireWalletAuth, async (req, res) => {
+    try {
+      const validatedData = compileRequestSchema.parse(req.body);
+      // Resolving imports fetches from remote registries, so it's bounded like a compile
+      if (!compileJobs.canAccept()) {
+        res.status(503).json({ success: false, error: "Compiler queue is full, please try again shortly" });
+        return;
+      }
+
+      const { input, importErrors } = await buildStandardJsonInput(validatedData);
+      res.json({ success: importErrors.length === 0, input, importErrors });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid request data",
+        });
+      } else {
+        console.error("Error building standard JSON input:", error);
+        res.status(500).json({
+          success: false,
+          error: "Internal server error",
+        });
+      }
+    }
+  });
+
+  app.post("/api/workspaces/:id/compile/standard-json", requireWalletAuth, async (req, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const target = await prepareWorkspaceCompile(workspaceId, req.session.walletAddress!, req.body);
+      if (!target.ok) {
+        res.status(target.status).json({ success: false, error: target.error });
+        return;
+      }
+      if (!compileJobs.canAccept()) {
+        res.status(503).json({ success: false, error: "Compiler queue is full, please try again shortly" });
+        return;
+      }
+
+      const { input, importErrors } = await buildStandardJsonInput(target.request, target.workspace);
+      res.json({ success: importErrors.length === 0, input, importErrors });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid request data",
+        });
+      } else {
+        console.error("Error building workspace standard JSON input:", error);
+        res.status(500).json({
+          success: false,
+          error: "Internal server error",
+        });
+      }
+    }
+  });
+
+  // Cached compiler output, referenced by hash from deployments and versions
+  app.get("/api/compilations/:hash", requireWalletAuth, async (req, res) => {
+    try {
+      // Compiled sources are private until deployed, so only expose them through the caller's deployments
+      const compilation = await storage.canAccessCompilation(req.params.hash, req.session.walletAddress!)
+        ? await storage.getCompilation(req.params.hash)
+        : undefined;
+      if (!compilation) {
+        res.status(404).json({ error: "Compilation not found" });
+        return;
+      }
+
+      res.json({
+        hash: compilation.hash,
+        solcVersion: compilation.solcVersion,
+        input: compilation.input,
+        output: compilation.output,
+        createdAt: compilation.createdAt,
+      });
+    } catch (error) {
+      console.error("Error fetching compilation:", error);
+      res.status(500).json({ error: "Failed to fetch compilation" });
+    }
+  });
+
+  // Compile jobs - compilation runs in the background and the client polls for the result
+  app.post("/api/compile/jobs", async (req, res) => {
+    try {
+      const validatedData = compileRequestSchema.parse(req.body);
+      if (!compileJobs.canAccept()) {
+        res.status(503).json({ error: "Compiler queue is full, please try again shortly" });
+        return;
+      }
+
+      const job = compileJobs.submit((options) => compileContract(validatedData, undefined, options));
+      res.status(202).json(job);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid request data" });
+      } else {
+        console.error("Error submitting compile job:", error);
+        res.status(500).json({ error: "Failed to submit compile job" });
+      }
+    }
+  });
+
+  app.post("/api/workspaces/:id/compile/jobs", requireWalletAuth, async (req, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const walletAddress = req.session.walletAddress!;
+      const target = await prepareWorkspaceCompile(workspaceId, walletAddress, req.body);
+      if (!target.ok) {
+        res.status(target.status).json({ error: target.error });
+        return;
+      }
+      if (!compileJobs.canAccept()) {
+        res.status(503).json({ error: "Compiler queue is full, please try again shortly" });
+        return;
+      }
+
+      const job = compileJobs.submit(
+        (options) => compileContract(target.request, target.workspace, options),
+        walletAddress
+      );
+      res.status(202).json(job);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid request data" });
+      } else {
+        console.error("Error submitting workspace compile job:", error);
+        res.status(500).json({ error: "Failed to submit compile job" });
+      }
+    }
+  });
+
+  app.get("/api/compile/jobs/:jobId", (req, res) => {
+    const job = compileJobs.get(req.params.jobId, req.session.walletAddress);
+    if (!job) {
+      res.status(404).json({ error: "Compile job not found" });
+      return;
+    }
+    res.json(job);
+  });
+
+  app.delete("/api/compile/jobs/:jobId", (req, res) => {
+    const job = compileJobs.cancel(req.params.jobId, req.session.walletAddress);
+    if (!job) {
+      res.status(404).json({ error: "Compile job not found" });
+      return;
+    }
+    res.json(job);
+  });
+
+  // Look up a precomputed CREATE2 address on every network before deploying to it
+  app.post("/api/create2/check", requireWalletAuth, async (req, res) => {
+    try {
+      const { address } = create2CheckRequestSchema.parse(req.body);
+      res.json({ networks: await checkCreate2Address(address) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Invalid request data" });
+        return;
+      }
+      console.error("Error checking CREATE2 address:", error);
+      res.status(500).json({ error: "Failed to check address" });
+    }
+  });
+
+  // Releases group the deployments of one contract to several networks
+  app.post("/api/releases", requireWalletAuth, async (req, res) => {
+    try {
+      const data = createReleaseRequestSchema.parse(req.body);
+      const release = await storage.createRelease({
+        ...data,
+        create2Salt: data.create2Salt ?? null,
+        walletAddress: req.session.walletAddress!,
+      });
+      res.json(release);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Invalid release data" });
+        return;
+      }
+      console.error("Error creating release:", error);
+      res.status(500).json({ error: "Failed to create release" });
+    }
+  });
+
+  app.get("/api/releases", requireWalletAuth, async (req, res) => {
+    try {
+      res.json(await storage.getReleasesByWallet(req.session.walletAddress!));
+    } catch (error) {
+      console.error("Error fetching releases:", error);
+      res.status(500).json({ error: "Failed to fetch releases" });
+    }
+  });
+
+  app.get("/api/releases/:id", requireWalletAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        res.status(400).json({ error: "Invalid release ID" });
+        return;
+      }
+
+      const release = await storage.getRelease(id);
+      if (!release) {
+        res.status(404).json({ error: "Release not found" });
+        return;
+      }
+      if (release.walletAddress.toLowerCase() !== req.session.walletAddress!.toLowerCase()) {
+        res.status(403).json({ error: "Unauthorized: You can only view your own releases" });
+        return;
+      }
+
+      res.json({ ...release, deployments: await storage.getDeploymentsByRelease(id) });
+    } catch (error) {
+      console.error("Error fetching release:", error);
+      res.status(500).json({ error: "Failed to fetch release" });
+    }
+  });
+
   // Deployment history routes
   app.post("/api/deployments", requireWalletAuth, async (req, res) => {
     try {
       const { workspaceId, ...deploymentData } = req.body;
       const deployment = insertDeploymentSchema.parse(deploymentData);
+
+      if (deployment.releaseId) {
+        const release = await storage.getRelease(deployment.releaseId);
+        if (!release || release.walletAddress.toLowerCase() !== req.session.walletAddress!.toLowerCase()) {
+          res.status(403).json({ error: "Unauthorized: You can only add deployments to your own releases" });
+          return;
+        }
+      }
       
       // Override walletAddress from session (prevent spoofing)
       const secureDeployment = {
@@ -284,9 +672,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       const walletAddress = req.session.walletAddress!;
+      const { provider } = verifyDeploymentRequestSchema.parse(req.body ?? {});
       
       // Verify ownership
-      let deployment = await storage.getDeployment(id);
+      const deployment = await storage.getDeployment(id);
       if (!deployment) {
         res.status(404).json({ error: "Deployment not found" });
         return;
@@ -304,107 +693,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
         return;
       }
-      
-      // Regenerate flattened source for legacy deployments (created before flattening feature)
-      let sourceForVerification = deployment.flattenedSource;
-      
-      if (!sourceForVerification) {
-        console.log(`[Verification] Regenerating flattened source for deployment ${id} (legacy deployment)`);
-        
-        try {
-          // Recompile to generate flattened source using the stored EVM version
-          const compilationResult = await compileContract({
-            sourceCode: deployment.sourceCode,
-            fileName: `${deployment.contractName}.sol`,
-            solcVersion: deployment.solcVersion || "0.8.20",
-            optimizationEnabled: deployment.optimizationEnabled ?? true,
-            optimizationRuns: deployment.optimizationRuns ?? 200,
-            evmVersion: (deployment.evmVersion || "paris") as any, // Use stored EVM version, fallback to paris for legacy
-          });
-          
-          if (compilationResult.success && compilationResult.contract?.flattenedSource) {
-            sourceForVerification = compilationResult.contract.flattenedSource;
-            
-            // Persist the regenerated flattened source for future verifications
-            await storage.updateDeploymentFlattenedSource(id, sourceForVerification);
-            console.log(`[Verification] Successfully regenerated and saved flattened source for deployment ${id}`);
-          } else {
-            // If regeneration fails, fall back to raw source (will likely fail verification)
-            console.warn(`[Verification] Failed to regenerate flattened source for deployment ${id}, using raw source`);
-            sourceForVerification = deployment.sourceCode;
-          }
-        } catch (error) {
-          console.error(`[Verification] Error regenerating flattened source:`, error);
-          sourceForVerification = deployment.sourceCode;
-        }
-      }
-      
-      // Encode constructor arguments if present
-      let encodedConstructorArgs: string | undefined;
-      if (deployment.constructorArgs && Array.isArray(deployment.constructorArgs) && deployment.constructorArgs.length > 0) {
-        try {
-          // Find constructor in ABI (cast to array since it's stored as JSONB)
-          const abi = deployment.abi as any[];
-          const constructorAbi = abi.find((item: any) => item.type === 'constructor');
-          if (constructorAbi && constructorAbi.inputs && constructorAbi.inputs.length > 0) {
-            // Extract types from constructor inputs
-            const types = constructorAbi.inputs.map((input: any) => input.type);
-            
-            // Encode constructor arguments
-            const abiCoder = AbiCoder.defaultAbiCoder();
-            const encoded = abiCoder.encode(types, deployment.constructorArgs);
-            
-            // Remove '0x' prefix for Etherscan
-            encodedConstructorArgs = encoded.startsWith('0x') ? encoded.slice(2) : encoded;
-            
-            console.log('[Verification] Encoded constructor args:', {
-              types,
-              values: deployment.constructorArgs,
-              encoded: encodedConstructorArgs,
-            });
-          }
-        } catch (error) {
-          console.error('[Verification] Failed to encode constructor arguments:', error);
-          // Continue without constructor args rather than failing
-        }
+
+      const notOnChain = missingOnChainReason(deployment);
+      if (notOnChain) {
+        res.status(409).json({ success: false, message: notOnChain });
+        return;
       }
       
-      const result = await contractVerifier.verifyContract({
-        contractAddress: deployment.contractAddress,
-        sourceCode: sourceForVerification,
-        contractName: deployment.contractName,
-        compilerVersion: deployment.solcVersion || "0.8.20",
-        chainId: deployment.chainId,
-        constructorArguments: encodedConstructorArgs,
-        optimizationEnabled: deployment.optimizationEnabled ?? true,
-        optimizationRuns: deployment.optimizationRuns ?? 200,
-        evmVersion: deployment.evmVersion || "paris",
-      });
-      
-      if (result.success && result.guid) {
-        // Mark as pending and store GUID for status checking
-        await storage.updateDeploymentVerificationStatus(id, 'pending', result.guid);
-        
-        const network = NETWORKS.find(n => n.chainId === deployment.chainId);
-        const verificationUrl = network 
-          ? `${network.blockExplorer}/address/${deployment.contractAddress}#code`
-          : undefined;
-        
-        res.json({
-          success: true,
-          message: "Verification submitted. Checking status...",
-          verificationUrl,
-          status: 'pending',
-        });
-      } else {
-        // Verification submission failed
-        await storage.updateDeploymentVerificationStatus(id, 'failed');
-        res.json({
-          success: false,
-          message: result.message || "Failed to submit verification",
-        });
-      }
+      res.json(await submitDeploymentVerification(deployment, provider));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ success: false, message: "Invalid verification provider" });
+        return;
+      }
       console.error("Error verifying contract:", error);
       res.status(500).json({ 
         success: false,
@@ -413,6 +714,146 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Verify several deployments at once, e.g. the copies of a contract from a multi-chain rollout.
+  // Deployments are queued for the verification poller, which submits them one by one, and
+  // the client follows their status through the deployment list.
+  app.post("/api/deployments/bulk-verify", requireWalletAuth, async (req, res) => {
+    try {
+      const walletAddress = req.session.walletAddress!;
+      const { deploymentIds, workspaceId, provider } = bulkVerifyRequestSchema.parse(req.body);
+
+      let ids = deploymentIds ?? [];
+      if (workspaceId) {
+        const workspace = await storage.getWorkspace(workspaceId);
+        if (!workspace) {
+          res.status(404).json({ error: "Workspace not found" });
+          return;
+        }
+
+        const members = workspace.members as any[];
+        const isMember = members.some(m => m.address?.toLowerCase() === walletAddress.toLowerCase());
+        if (!isMember) {
+          res.status(403).json({ error: "Unauthorized: You are not a member of this workspace" });
+          return;
+        }
+
+        // Only the deployments that still need verifying
+        const workspaceDeployments = await Promise.all(
+          (workspace.deployments as number[]).map((id) => storage.getDeployment(id))
+        );
+        ids = workspaceDeployments
+          .filter((d): d is Deployment => !!d && !d.verified && d.verificationStatus !== 'pending' && !missingOnChainReason(d))
+          .map((d) => d.id);
+      }
+
+      const results: BulkVerifyOutcome[] = [];
+      const queued: number[] = [];
+      for (const id of Array.from(new Set(ids))) {
+        const deployment = await storage.getDeployment(id);
+        const details = { deploymentId: id, contractName: deployment?.contractName, network: deployment?.network };
+        if (!deployment) {
+          results.push({ ...details, status: 'skipped', message: "Deployment not found" });
+        } else if (deployment.walletAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+          results.push({ ...details, status: 'skipped', message: "Deployed by another wallet" });
+        } else if (deployment.verified) {
+          results.push({ ...details, status: 'verified', message: "Contract is already verified" });
+        } else if (deployment.verificationStatus === 'pending') {
+          results.push({ ...details, status: 'skipped', message: "Verification already in progress" });
+        } else if (missingOnChainReason(deployment)) {
+          results.push({ ...details, status: 'skipped', message: missingOnChainReason(deployment)! });
+        } else if (queued.length >= MAX_BULK_VERIFY_DEPLOYMENTS) {
+          results.push({ ...details, status: 'skipped', message: `Only ${MAX_BULK_VERIFY_DEPLOYMENTS} deployments are verified per request` });
+        } else {
+          await verificationPoller.queue(deployment, provider);
+          queued.push(id);
+          results.push({ ...details, status: 'pending', message: "Queued for verification" });
+        }
+      }
+
+      res.status(202).json({ queued, results });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Invalid request data" });
+        return;
+      }
+      console.error("Error bulk verifying deployments:", error);
+      res.status(500).json({ error: "Failed to verify deployments" });
+    }
+  });
+
+  // Standard JSON input a deployment was compiled from, as a downloadable file
+  app.get("/api/deployments/:id/standard-json", requireWalletAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const walletAddress = req.session.walletAddress!;
+
+      const deployment = await storage.getDeployment(id);
+      if (!deployment) {
+        res.status(404).json({ error: "Deployment not found" });
+        return;
+      }
+      if (deployment.walletAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+        res.status(403).json({ error: "Unauthorized: You can only export your own deployments" });
+        return;
+      }
+
+      let input = (await loadDeploymentStandardJson(deployment))?.input;
+      if (!input) {
+        // Imports no longer resolve, but the flattened source is self-contained
+        const request = deploymentCompileRequest(deployment);
+        input = (await buildStandardJsonInput({ ...request, sourceCode: deployment.flattenedSource ?? request.sourceCode })).input;
+      }
+
+      res.setHeader("Content-Disposition", `attachment; filename="${deployment.contractName}.standard-input.json"`);
+      res.json(input);
+    } catch (error) {
+      console.error("Error exporting standard JSON input:", error);
+      res.status(500).json({ error: "Failed to export standard JSON input" });
+    }
+  });
+
+  // Flattened single-file source of a deployment, as a downloadable .sol file
+  app.get("/api/deployments/:id/flattened", requireWalletAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const walletAddress = req.session.walletAddress!;
+
+      const deployment = await storage.getDeployment(id);
+      if (!deployment) {
+        res.status(404).json({ error: "Deployment not found" });
+        return;
+      }
+      if (deployment.walletAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+        res.status(403).json({ error: "Unauthorized: You can only export your own deployments" });
+        return;
+      }
+      if (deployment.language === "Vyper") {
+        res.status(400).json({ error: "Vyper contracts have no flattened form; export the standard JSON input instead" });
+        return;
+      }
+
+      // Flatten the cached compile so older deployments get the current flattener's output
+      let flattened: string | undefined;
+      const standardJson = await loadDeploymentStandardJson(deployment);
+      if (standardJson?.output && standardJson.sourceName) {
+        flattened = flattenSources(standardJson.input.sources, standardJson.output, standardJson.sourceName);
+      }
+      flattened ??= deployment.flattenedSource ?? undefined;
+
+      if (!flattened) {
+        res.status(404).json({ error: "No flattened source available for this deployment" });
+        return;
+      }
+
+      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${deployment.contractName}.flattened.sol"`);
+      res.send(flattened);
+    } catch (error) {
+      console.error("Error exporting flattened source:", error);
+      res.status(500).json({ error: "Failed to export flattened source" });
+    }
+  });
+
   app.post("/api/deployments/:id/check-verification", requireWalletAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -432,35 +873,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!deployment.verificationGuid) {
         res.json({ 
           success: false,
-          message: "No verification GUID found",
+          message: deployment.verificationStatus === 'pending'
+            ? "Waiting for the block explorer to index the contract before resubmitting"
+            : "No verification GUID found",
+          ...(deployment.verificationStatus === 'pending' ? { status: 'pending' } : {}),
         });
         return;
       }
       
-      // Check verification status with block explorer
-      const result = await contractVerifier.checkVerificationStatus(
-        deployment.verificationGuid,
-        deployment.chainId
-      );
+      // Check verification status with the provider the verification was submitted to
+      const result = await verificationPoller.check(deployment);
       
-      if (result.success) {
-        // Verification complete!
-        await storage.updateDeploymentVerificationStatus(id, 'verified');
+      if (result.outcome === 'verified') {
         res.json({
           success: true,
-          message: "Contract verified successfully",
+          message: result.matchType === 'partial'
+            ? "Contract verified (partial match: the metadata hash differs from the submitted sources)"
+            : "Contract verified successfully",
           status: 'verified',
+          matchType: result.matchType,
         });
-      } else if (result.status.includes('Pending') || result.status.includes('pending')) {
-        // Still pending
+      } else if (result.outcome === 'pending' || result.outcome === 'retry') {
+        // Still pending, or waiting to be resubmitted
         res.json({
           success: false,
           message: "Verification still pending",
           status: 'pending',
         });
       } else {
-        // Verification failed
-        await storage.updateDeploymentVerificationStatus(id, 'failed');
         res.json({
           success: false,
           message: `Verification failed: ${result.status}`,
@@ -476,6 +916,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Verification submissions and status checks with the provider's raw responses, newest first
+  app.get("/api/deployments/:id/verification-attempts", requireWalletAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const walletAddress = req.session.walletAddress!;
+
+      const deployment = await storage.getDeployment(id);
+      if (!deployment) {
+        res.status(404).json({ error: "Deployment not found" });
+        return;
+      }
+      if (deployment.walletAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+        res.status(403).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const attempts = await storage.getVerificationAttempts(id);
+      res.json(attempts);
+    } catch (error) {
+      console.error("Error fetching verification attempts:", error);
+      res.status(500).json({ error: "Failed to fetch verification attempts" });
+    }
+  });
+
+  // Recompile a deployment and compare its runtime bytecode with the code on chain. Needs only
+  // the network's RPC, so it works without any explorer API key.
+  app.post("/api/deployments/:id/bytecode-match", requireWalletAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const walletAddress = req.session.walletAddress!;
+
+      const deployment = await storage.getDeployment(id);
+      if (!deployment) {
+        res.status(404).json({ error: "Deployment not found" });
+        return;
+      }
+      if (deployment.walletAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+        res.status(403).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const notOnChain = missingOnChainReason(deployment);
+      if (notOnChain) {
+        res.status(409).json({ error: notOnChain });
+        return;
+      }
+
+      const match = await bytecodeMatcher.match(deployment);
+      await storage.updateDeploymentBytecodeMatch(id, match.result);
+      res.json(match);
+    } catch (error) {
+      console.error("Error matching deployment bytecode:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to compare bytecode" });
+    }
+  });
+
   app.patch("/api/deployments/:id/verification", requireWalletAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -592,6 +1088,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         notes: validatedData.notes || null,
         solcVersion: validatedData.solcVersion || deployment.solcVersion || null,
         compilerSettings: validatedData.compilerSettings || null,
+        openzeppelinVersion: validatedData.openzeppelinVersion || null,
+        compilationHash: validatedData.compilationHash || null,
         createdBy: walletAddress,
       });
       
@@ -904,6 +1402,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/workspaces/:id/dependencies", requireWalletAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const walletAddress = req.session.walletAddress!;
+      const dependencies = updateWorkspaceDependenciesSchema.parse(req.body);
+
+      const workspace = await storage.getWorkspace(id);
+      if (!workspace) {
+        res.status(404).json({ error: "Workspace not found" });
+        return;
+      }
+
+      // Verify membership
+      const members = workspace.members as any[];
+      const isMember = members.some(m => m.address?.toLowerCase() === walletAddress.toLowerCase());
+      if (!isMember) {
+        res.status(403).json({ error: "Unauthorized: You are not a member of this workspace" });
+        return;
+      }
+
+      await storage.updateWorkspaceDependencies(id, dependencies);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Invalid dependencies" });
+      } else {
+        console.error("Error updating workspace dependencies:", error);
+        res.status(500).json({ error: "Failed to update workspace dependencies" });
+      }
+    }
+  });
+
+  // Import a standard JSON input as workspace files; returns the compiler settings it carried
+  app.post("/api/workspaces/:id/import-standard-json", requireWalletAuth, async (req, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const walletAddress = req.session.walletAddress!;
+      const { input, overwrite } = importStandardJsonRequestSchema.parse(req.body);
+
+      const workspace = await storage.getWorkspace(workspaceId);
+      if (!workspace) {
+        res.status(404).json({ error: "Workspace not found" });
+        return;
+      }
+
+      const members = (workspace.members as any[]) || [];
+      const isMember = members.some((m: any) => m.address?.toLowerCase() === walletAddress.toLowerCase());
+
+      if (!isMember && workspace.createdBy.toLowerCase() !== walletAddress.toLowerCase()) {
+        res.status(403).json({ error: "Not a workspace member" });
+        return;
+      }
+
+      const invalidPaths = Object.keys(input.sources).filter((sourceName) => !toImportedFilePath(sourceName));
+      if (invalidPaths.length > 0) {
+        res.status(400).json({ error: `Invalid source paths: ${invalidPaths.join(", ")}` });
+        return;
+      }
+
+      const created: string[] = [];
+      const updated: string[] = [];
+      const skipped: string[] = [];
+
+      for (const [sourceName, { content }] of Object.entries(input.sources)) {
+        const path = toImportedFilePath(sourceName)!;
+        const existing = await storage.getFileByPath(workspaceId, path);
+        if (!existing) {
+          await storage.createFile({ workspaceId, path, content, isDirectory: false });
+          created.push(path);
+        } else if (existing.isDirectory || (existing.content !== content && !overwrite)) {
+          skipped.push(path);
+        } else if (existing.content !== content) {
+          await storage.updateFileContent(existing.id, content);
+          updated.push(path);
+        }
+      }
+
+      const settings = parseCompilerSettings(input);
+      if (settings.remappings && settings.remappings.length > 0) {
+        const remappings = updateWorkspaceDependenciesSchema.shape.remappings.safeParse(settings.remappings);
+        if (remappings.success) {
+          await storage.updateWorkspaceDependencies(workspaceId, {
+            packages: workspace.packages ?? {},
+            remappings: remappings.data,
+          });
+        }
+      }
+
+      res.json({ success: true, created, updated, skipped, settings });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid standard JSON input", details: error.errors });
+      } else {
+        console.error("Error importing standard JSON input:", error);
+        res.status(500).json({ error: "Failed to import standard JSON input" });
+      }
+    }
+  });
+
   app.delete("/api/workspaces/:id", requireWalletAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -1229,6 +1826,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin API - Compiler cache management
+  app.get("/api/admin/compilers", requireWalletAuth, requireAdmin, async (req, res) => {
+    try {
+      const versions = await listCompilerVersions();
+      res.json({
+        cacheDir: config.SOLC_CACHE_DIR,
+        prewarmVersions: config.SOLC_PREWARM_VERSIONS,
+        installed: versions.filter((v) => v.installed),
+        available: versions,
+      });
+    } catch (error: any) {
+      console.error("Error listing compiler versions:", error);
+      res.status(500).json({ error: error.message || "Failed to list compiler versions" });
+    }
+  });
+
+  app.post("/api/admin/compilers/prewarm", requireWalletAuth, requireAdmin, async (req, res) => {
+    try {
+      const { versions } = prewarmCompilersSchema.parse(req.body);
+      const result = await prewarmSolcVersions(versions);
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid request data", details: error.errors });
+      } else {
+        console.error("Error pre-warming compilers:", error);
+        res.status(500).json({ error: error.message || "Failed to pre-warm compilers" });
+      }
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -0,0 +1,238 @@
+import { createHash, randomUUID } from "crypto";
+import { createRequire } from "module";
+import { promises as fs } from "fs";
+import path from "path";
+import solc from "solc";
+import { keccak256 } from "ethers";
+import { config } from "../config";
+
+const SOLC_BIN_URL = "https://binaries.soliditylang.org/bin";
+const LIST_FILE = "list.json";
+
+const require = createRequire(import.meta.url);
+
+interface SolcBuild {
+  path: string;
+  version: string;
+  longVersion: string;
+  keccak256: string;
+  sha256: string;
+}
+
+interface SolcVersionList {
+  builds: SolcBuild[];
+  releases: Record<string, string>;
+  latestRelease: string;
+}
+
+export interface LoadedCompiler {
+  compiler: any;
+  fullVersion: string;
+}
+
+export interface CompilerVersionInfo {
+  version: string;
+  longVersion: string;
+  installed: boolean;
+}
+
+// Compilers already instantiated in this thread, keyed by short version
+const compilerCache = new Map<string, LoadedCompiler>();
+let versionList: SolcVersionList | null = null;
+
+function getCacheDir(): string {
+  return path.resolve(config.SOLC_CACHE_DIR);
+}
+
+async function readCachedFile(fileName: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(path.join(getCacheDir(), fileName));
+  } catch {
+    return null;
+  }
+}
+
+async function writeCachedFile(fileName: string, data: Buffer | string): Promise<void> {
+  const dir = getCacheDir();
+  await fs.mkdir(dir, { recursive: true });
+  // Write to a temp file first so a crash never leaves a truncated build behind. Worker
+  // threads share the process id, so the name has to be unique per write.
+  const tempPath = path.join(dir, `${fileName}.${randomUUID()}.tmp`);
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, path.join(dir, fileName));
+}
+
+/**
+ * Fetch the release list, refreshing the on-disk copy when the network is
+ * available and falling back to it when it is not
+ */
+export async function getSolcVersionList(): Promise<SolcVersionList> {
+  if (versionList) {
+    return versionList;
+  }
+
+  try {
+    const response = await fetch(`${SOLC_BIN_URL}/${LIST_FILE}`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const body = await response.text();
+    versionList = JSON.parse(body) as SolcVersionList;
+    await writeCachedFile(LIST_FILE, body);
+    return versionList;
+  } catch (error: any) {
+    const cached = await readCachedFile(LIST_FILE);
+    if (!cached) {
+      throw new Error(`Failed to fetch Solidity release list and no cached copy exists: ${error.message}`);
+    }
+    console.warn(`Using cached Solidity release list (${error.message})`);
+    versionList = JSON.parse(cached.toString("utf8")) as SolcVersionList;
+    return versionList;
+  }
+}
+
+function findBuild(list: SolcVersionList, version: string): SolcBuild {
+  const fileName = list.releases[version];
+  if (!fileName) {
+    const availableVersions = Object.keys(list.releases).slice(0, 10).join(", ");
+    throw new Error(`Solidity version ${version} not found in releases. Available versions: ${availableVersions}`);
+  }
+
+  const build = list.builds.find((b) => b.path === fileName);
+  if (!build) {
+    throw new Error(`No build metadata found for Solidity version ${version}`);
+  }
+  return build;
+}
+
+/**
+ * Check a soljson build against the keccak256 and sha256 digests published in list.json
+ */
+function verifyChecksums(build: SolcBuild, data: Buffer): boolean {
+  const sha256 = "0x" + createHash("sha256").update(data).digest("hex");
+  return keccak256(data) === build.keccak256 && sha256 === build.sha256;
+}
+
+/**
+ * Make sure the soljson build for a version is on disk and verified,
+ * downloading it if necessary. Returns the absolute path to the build.
+ */
+export async function installSolcVersion(version: string): Promise<string> {
+  const list = await getSolcVersionList();
+  const build = findBuild(list, version);
+  const filePath = path.join(getCacheDir(), build.path);
+
+  const cached = await readCachedFile(build.path);
+  if (cached) {
+    if (verifyChecksums(build, cached)) {
+      return filePath;
+    }
+    console.warn(`Cached Solidity compiler ${build.path} failed checksum verification, downloading again`);
+  }
+
+  console.log(`Downloading Solidity compiler: ${version} -> ${build.longVersion}`);
+  const response = await fetch(`${SOLC_BIN_URL}/${build.path}`);
+  if (!response.ok) {
+    throw new Error(`Failed to download Solidity compiler version ${version}: HTTP ${response.status}`);
+  }
+
+  const data = Buffer.from(await response.arrayBuffer());
+  if (!verifyChecksums(build, data)) {
+    throw new Error(`Downloaded Solidity compiler version ${version} failed checksum verification`);
+  }
+
+  await writeCachedFile(build.path, data);
+  return filePath;
+}
+
+function toFullVersion(build: SolcBuild): string {
+  return build.path.replace("soljson-", "").replace(".js", ""); // e.g. "v0.8.30+commit.6182c971"
+}
+
+/**
+ * Full version with commit hash for a release, without loading the compiler
+ */
+export async function resolveFullVersion(version: string): Promise<string> {
+  return toFullVersion(findBuild(await getSolcVersionList(), version));
+}
+
+/**
+ * Load a compiler from the on-disk cache, installing it first if needed
+ */
+export async function loadSolcVersion(version: string): Promise<LoadedCompiler> {
+  const loaded = compilerCache.get(version);
+  if (loaded) {
+    return loaded;
+  }
+
+  const list = await getSolcVersionList();
+  const build = findBuild(list, version);
+  const filePath = await installSolcVersion(version);
+
+  console.log(`Loading Solidity compiler: ${version} -> ${build.longVersion}`);
+
+  try {
+    const result = {
+      compiler: solc.setupMethods(require(filePath)),
+      fullVersion: toFullVersion(build),
+    };
+    compilerCache.set(version, result);
+    return result;
+  } catch (error: any) {
+    throw new Error(`Failed to load Solidity compiler version ${version}: ${error.message}`);
+  }
+}
+
+/**
+ * Short versions whose builds are present in the cache directory
+ */
+export async function listInstalledVersions(): Promise<string[]> {
+  const list = await getSolcVersionList();
+  let files: string[];
+  try {
+    files = await fs.readdir(getCacheDir());
+  } catch {
+    return [];
+  }
+
+  const installedFiles = new Set(files);
+  return Object.entries(list.releases)
+    .filter(([, fileName]) => installedFiles.has(fileName))
+    .map(([version]) => version);
+}
+
+/**
+ * All released versions with their install state
+ */
+export async function listCompilerVersions(): Promise<CompilerVersionInfo[]> {
+  const list = await getSolcVersionList();
+  const installed = new Set(await listInstalledVersions());
+
+  return Object.entries(list.releases).map(([version, fileName]) => ({
+    version,
+    longVersion: list.builds.find((b) => b.path === fileName)?.longVersion ?? version,
+    installed: installed.has(version),
+  }));
+}
+
+/**
+ * Download and verify the given versions so they can be used offline
+ */
+export async function prewarmSolcVersions(
+  versions: string[] = config.SOLC_PREWARM_VERSIONS
+): Promise<{ installed: string[]; failed: { version: string; error: string }[] }> {
+  const installed: string[] = [];
+  const failed: { version: string; error: string }[] = [];
+
+  // Sequential on purpose: each build is several megabytes
+  for (const version of versions) {
+    try {
+      await installSolcVersion(version);
+      installed.push(version);
+    } catch (error: any) {
+      failed.push({ version, error: error.message });
+    }
+  }
+
+  return { installed, failed };
+}
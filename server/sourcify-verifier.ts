@@ -0,0 +1,147 @@
+import type { Network } from "@shared/schema";
+import { config } from "../config";
+import type { VerificationPayload, VerificationProvider, VerificationStatus, VerificationSubmission } from "./verification-provider";
+
+/**
+ * Sourcify API v2: keyless verification on any EVM chain Sourcify supports.
+ * Submits the compiler metadata JSON with its sources when available (full match
+ * when the metadata hash in the bytecode matches, partial match otherwise), or the
+ * standard JSON input for compiles whose output had no metadata.
+ */
+export class SourcifyVerifier implements VerificationProvider {
+  readonly name = 'sourcify' as const;
+
+  isConfigured(network: Network): boolean {
+    return true;
+  }
+
+  getContractUrl(network: Network, address: string): string {
+    return `${config.SOURCIFY_REPO_URL}/${network.chainId}/${address}`;
+  }
+
+  async verifyContract(payload: VerificationPayload, network: Network): Promise<VerificationSubmission> {
+    const input = payload.standardJsonInput;
+    if (!input) {
+      return {
+        success: false,
+        message: 'Sourcify needs the standard JSON input the contract was compiled from',
+      };
+    }
+
+    const sourceName = payload.sourceName;
+    if (!sourceName) {
+      return {
+        success: false,
+        message: `Source for contract ${payload.contractName} not found in the compiler output`,
+      };
+    }
+
+    try {
+      const address = payload.contractAddress;
+      let url: string;
+      let body: Record<string, unknown>;
+
+      if (payload.metadata) {
+        // Metadata lists every source it was compiled from, keyed by source unit name
+        const metadata = JSON.parse(payload.metadata);
+        const sources = Object.fromEntries(
+          Object.keys(metadata.sources ?? {}).map((name) => [name, input.sources[name]?.content ?? ''])
+        );
+        url = `${config.SOURCIFY_SERVER_URL}/v2/verify/metadata/${network.chainId}/${address}`;
+        body = { sources, metadata };
+      } else {
+        url = `${config.SOURCIFY_SERVER_URL}/v2/verify/${network.chainId}/${address}`;
+        body = {
+          stdJsonInput: input,
+          // Sourcify expects "0.8.30+commit.73712a01", without the "v" or "vyper:" prefix
+          compilerVersion: payload.compilerVersion.replace(/^(v|vyper:)/, ''),
+          contractIdentifier: `${sourceName}:${payload.contractName}`,
+        };
+      }
+      if (payload.creationTransactionHash) {
+        body.creationTransactionHash = payload.creationTransactionHash;
+      }
+
+      console.log('[Sourcify API] Verification request:', {
+        chainId: network.chainId,
+        contractAddress: address,
+        contractName: payload.contractName,
+        format: payload.metadata ? 'metadata' : 'standard-json',
+      });
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      console.log('[Sourcify API] Verification response:', JSON.stringify(data, null, 2));
+
+      if (!response.ok || !data.verificationId) {
+        return {
+          success: false,
+          message: data.message || `Sourcify returned HTTP ${response.status}`,
+          response: data,
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Contract verification submitted to Sourcify',
+        guid: data.verificationId,
+        response: data,
+      };
+    } catch (error) {
+      console.error('Sourcify verification error:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
+  async checkVerificationStatus(guid: string, network: Network): Promise<VerificationStatus> {
+    try {
+      console.log('[Sourcify API] Status check request:', { chainId: network.chainId, verificationId: guid });
+
+      const response = await fetch(`${config.SOURCIFY_SERVER_URL}/v2/verify/${encodeURIComponent(guid)}`);
+      const data = await response.json().catch(() => ({}));
+
+      console.log('[Sourcify API] Status check response:', JSON.stringify(data, null, 2));
+
+      if (!response.ok) {
+        return {
+          success: false,
+          status: data.message || `Sourcify returned HTTP ${response.status}`,
+          response: data,
+        };
+      }
+      if (!data.isJobCompleted) {
+        return { success: false, status: 'Pending in queue', response: data };
+      }
+
+      const match = data.contract?.match;
+      if (match === 'exact_match' || match === 'match') {
+        return {
+          success: true,
+          status: match === 'exact_match' ? 'Pass - Verified (full match)' : 'Pass - Verified (partial match)',
+          matchType: match === 'exact_match' ? 'full' : 'partial',
+          response: data,
+        };
+      }
+
+      return {
+        success: false,
+        status: data.error?.message || 'Bytecode does not match the submitted sources',
+        response: data,
+      };
+    } catch (error) {
+      console.error('Sourcify status check error:', error);
+      return {
+        success: false,
+        status: 'Failed to check status',
+      };
+    }
+  }
+}
@@ -5,21 +5,35 @@ import {
   type InsertContractTemplate,
   type Workspace,
   type InsertWorkspace,
+  type UpdateWorkspaceDependencies,
   type WorkspaceFile,
   type InsertWorkspaceFile,
   type ContractVersion,
   type InsertContractVersion,
   type GasHistory,
   type InsertGasHistory,
+  type CompilationCache,
+  type InsertCompilationCache,
+  type VerificationProviderName,
+  type ProxyType,
+  type BytecodeMatchResult,
+  type VerificationAttempt,
+  type InsertVerificationAttempt,
+  type DeploymentChainState,
+  type Release,
+  type InsertRelease,
   deployments,
   contractTemplates,
   workspaces,
   workspaceFiles,
   contractVersions,
   gasHistory,
+  compilationCache,
+  verificationAttempts,
+  releases,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, sql, and, max, gte, lte } from "drizzle-orm";
+import { eq, desc, sql, and, or, max, gte, lt, lte, isNull, isNotNull } from "drizzle-orm";
 
 export interface IStorage {
   // Deployments
@@ -28,7 +42,18 @@ export interface IStorage {
   getDeploymentsByWallet(walletAddress: string): Promise<Deployment[]>;
   updateDeploymentNotes(id: number, notes: string): Promise<void>;
   updateDeploymentVerification(id: number, verified: boolean): Promise<void>;
-  updateDeploymentVerificationStatus(id: number, status: string, guid?: string): Promise<void>;
+  updateDeploymentVerificationStatus(id: number, status: string, guid?: string | null, provider?: VerificationProviderName | null): Promise<void>;
+  scheduleVerificationCheck(id: number, attemptCount: number, nextCheckAt: Date | null): Promise<void>;
+  getDeploymentsDueForVerification(now: Date): Promise<Deployment[]>;
+  claimVerificationCheck(id: number, staleBefore: Date): Promise<Deployment | undefined>;
+  releaseVerificationCheck(id: number): Promise<void>;
+  findDeploymentByAddress(chainId: number, contractAddress: string, walletAddress: string): Promise<Deployment | undefined>;
+  updateDeploymentProxy(id: number, proxyType: ProxyType, implementationAddress: string, implementationDeploymentId: number | null): Promise<void>;
+  updateDeploymentProxyLink(id: number, status: string | null, guid?: string): Promise<void>;
+  getProxiesAwaitingLink(): Promise<Deployment[]>;
+  updateDeploymentBytecodeMatch(id: number, result: BytecodeMatchResult): Promise<void>;
+  getUnsettledDeployments(): Promise<Deployment[]>;
+  updateDeploymentChainState(id: number, state: DeploymentChainState): Promise<void>;
   updateDeploymentFlattenedSource(id: number, flattenedSource: string): Promise<void>;
   deleteDeployment(id: number): Promise<void>;
   
@@ -44,6 +69,7 @@ export interface IStorage {
   getWorkspacesByMember(walletAddress: string): Promise<Workspace[]>;
   updateWorkspaceMembers(id: number, members: any): Promise<void>;
   renameWorkspace(id: number, name: string): Promise<void>;
+  updateWorkspaceDependencies(id: number, dependencies: UpdateWorkspaceDependencies): Promise<void>;
   addDeploymentToWorkspace(workspaceId: number, deploymentId: number): Promise<void>;
   deleteWorkspace(id: number): Promise<void>;
   
@@ -62,16 +88,34 @@ export interface IStorage {
   getContractVersions(deploymentId: number): Promise<ContractVersion[]>;
   getContractVersion(id: number): Promise<ContractVersion | undefined>;
   
+  // Releases
+  createRelease(release: InsertRelease): Promise<Release>;
+  getRelease(id: number): Promise<Release | undefined>;
+  getReleasesByWallet(walletAddress: string): Promise<Release[]>;
+  getDeploymentsByRelease(releaseId: number): Promise<Deployment[]>;
+  
   // Gas History
   saveGasHistory(gasData: InsertGasHistory): Promise<GasHistory>;
   getLatestGasPrice(chainId: number): Promise<GasHistory | undefined>;
   getGasHistory(chainId: number, startTime?: Date, endTime?: Date): Promise<GasHistory[]>;
+  
+  // Compilation Cache
+  getCompilation(hash: string): Promise<CompilationCache | undefined>;
+  saveCompilation(entry: InsertCompilationCache): Promise<void>;
+  recordCompilationHit(hash: string): Promise<void>;
+  canAccessCompilation(hash: string, walletAddress: string): Promise<boolean>;
+  evictCompilations(unusedSince: Date): Promise<number>;
+  
+  // Verification Attempts
+  createVerificationAttempt(attempt: InsertVerificationAttempt): Promise<VerificationAttempt>;
+  getVerificationAttempts(deploymentId: number): Promise<VerificationAttempt[]>;
 }
 
 export class DatabaseStorage implements IStorage {
   // Deployments
   async createDeployment(deployment: InsertDeployment): Promise<Deployment> {
-    const [result] = await db.insert(deployments).values(deployment).returning();
+    // Saved as soon as the transaction is sent; the deployment watcher takes it from there
+    const [result] = await db.insert(deployments).values({ ...deployment, status: 'pending' }).returning();
     return result;
   }
 
@@ -96,17 +140,116 @@ export class DatabaseStorage implements IStorage {
     await db.update(deployments).set({ verified }).where(eq(deployments.id, id));
   }
 
-  async updateDeploymentVerificationStatus(id: number, status: string, guid?: string): Promise<void> {
+  async updateDeploymentVerificationStatus(id: number, status: string, guid?: string | null, provider?: VerificationProviderName | null): Promise<void> {
     const updates: any = { verificationStatus: status };
     if (guid !== undefined) {
       updates.verificationGuid = guid;
     }
+    if (provider !== undefined) {
+      updates.verificationProvider = provider;
+    }
     if (status === 'verified') {
       updates.verified = true;
     }
+    if (status !== 'pending') {
+      updates.verificationNextCheckAt = null; // Nothing left for the poller to do
+    }
     await db.update(deployments).set(updates).where(eq(deployments.id, id));
   }
 
+  async scheduleVerificationCheck(id: number, attemptCount: number, nextCheckAt: Date | null): Promise<void> {
+    await db.update(deployments)
+      .set({ verificationAttemptCount: attemptCount, verificationNextCheckAt: nextCheckAt })
+      .where(eq(deployments.id, id));
+  }
+
+  // Pending verifications whose next check is due; ones never scheduled (submitted before
+  // the poller existed) are always due
+  async getDeploymentsDueForVerification(now: Date): Promise<Deployment[]> {
+    return db.select().from(deployments).where(
+      and(
+        eq(deployments.verificationStatus, 'pending'),
+        or(isNull(deployments.verificationNextCheckAt), lte(deployments.verificationNextCheckAt, now))
+      )
+    );
+  }
+
+  // Mark a submitted verification as being checked, unless another check (started after
+  // staleBefore) already is; returns the deployment as of the claim
+  async claimVerificationCheck(id: number, staleBefore: Date): Promise<Deployment | undefined> {
+    const [result] = await db.update(deployments)
+      .set({ verificationCheckStartedAt: new Date() })
+      .where(
+        and(
+          eq(deployments.id, id),
+          eq(deployments.verificationStatus, 'pending'),
+          isNotNull(deployments.verificationGuid),
+          or(isNull(deployments.verificationCheckStartedAt), lt(deployments.verificationCheckStartedAt, staleBefore))
+        )
+      )
+      .returning();
+    return result;
+  }
+
+  async releaseVerificationCheck(id: number): Promise<void> {
+    await db.update(deployments)
+      .set({ verificationCheckStartedAt: null })
+      .where(eq(deployments.id, id));
+  }
+
+  async findDeploymentByAddress(chainId: number, contractAddress: string, walletAddress: string): Promise<Deployment | undefined> {
+    const [result] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(
+          eq(deployments.chainId, chainId),
+          sql`lower(${deployments.contractAddress}) = ${contractAddress.toLowerCase()}`,
+          sql`lower(${deployments.walletAddress}) = ${walletAddress.toLowerCase()}`
+        )
+      )
+      .orderBy(desc(deployments.deployedAt))
+      .limit(1);
+    return result;
+  }
+
+  // Linking waits until the proxy and its implementation have been verified
+  async updateDeploymentProxy(id: number, proxyType: ProxyType, implementationAddress: string, implementationDeploymentId: number | null): Promise<void> {
+    await db.update(deployments)
+      .set({ proxyType, implementationAddress, implementationDeploymentId, proxyLinkStatus: 'waiting', proxyLinkGuid: null })
+      .where(eq(deployments.id, id));
+  }
+
+  async updateDeploymentProxyLink(id: number, status: string | null, guid?: string): Promise<void> {
+    const updates: any = { proxyLinkStatus: status };
+    if (guid !== undefined) {
+      updates.proxyLinkGuid = guid;
+    }
+    await db.update(deployments).set(updates).where(eq(deployments.id, id));
+  }
+
+  async getProxiesAwaitingLink(): Promise<Deployment[]> {
+    return db.select().from(deployments).where(
+      or(eq(deployments.proxyLinkStatus, 'waiting'), eq(deployments.proxyLinkStatus, 'pending'))
+    );
+  }
+
+  async updateDeploymentBytecodeMatch(id: number, result: BytecodeMatchResult): Promise<void> {
+    await db.update(deployments)
+      .set({ bytecodeMatch: result, bytecodeMatchCheckedAt: new Date() })
+      .where(eq(deployments.id, id));
+  }
+
+  async getUnsettledDeployments(): Promise<Deployment[]> {
+    return db.select().from(deployments).where(
+      or(eq(deployments.status, 'pending'), eq(deployments.status, 'mined'))
+    );
+  }
+
+  async updateDeploymentChainState(id: number, state: DeploymentChainState): Promise<void> {
+    await db.update(deployments).set(state).where(eq(deployments.id, id));
+  }
+
   async updateDeploymentFlattenedSource(id: number, flattenedSource: string): Promise<void> {
     await db.update(deployments).set({ flattenedSource }).where(eq(deployments.id, id));
   }
@@ -165,6 +308,13 @@ export class DatabaseStorage implements IStorage {
     await db.update(workspaces).set({ name }).where(eq(workspaces.id, id));
   }
 
+  async updateWorkspaceDependencies(id: number, dependencies: UpdateWorkspaceDependencies): Promise<void> {
+    await db
+      .update(workspaces)
+      .set({ packages: dependencies.packages, remappings: dependencies.remappings })
+      .where(eq(workspaces.id, id));
+  }
+
   async addDeploymentToWorkspace(workspaceId: number, deploymentId: number): Promise<void> {
     await db
       .update(workspaces)
@@ -235,7 +385,7 @@ export class DatabaseStorage implements IStorage {
   async createContractVersion(data: Omit<InsertContractVersion, 'version'>): Promise<ContractVersion> {
     // Use raw SQL to atomically calculate next version number
     const result = await db.execute<ContractVersion>(sql`
-      INSERT INTO contract_versions (deployment_id, version, source_code, notes, solc_version, compiler_settings, created_by)
+      INSERT INTO contract_versions (deployment_id, version, source_code, notes, solc_version, compiler_settings, openzeppelin_version, compilation_hash, created_by)
       VALUES (
         ${data.deploymentId},
         COALESCE((SELECT MAX(version) FROM contract_versions WHERE deployment_id = ${data.deploymentId}), 0) + 1,
@@ -243,6 +393,8 @@ export class DatabaseStorage implements IStorage {
         ${data.notes},
         ${data.solcVersion},
         ${data.compilerSettings},
+        ${data.openzeppelinVersion ?? null},
+        ${data.compilationHash ?? null},
         ${data.createdBy}
       )
       RETURNING *
@@ -263,6 +415,33 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // Releases
+  async createRelease(release: InsertRelease): Promise<Release> {
+    const [result] = await db.insert(releases).values(release).returning();
+    return result;
+  }
+
+  async getRelease(id: number): Promise<Release | undefined> {
+    const [result] = await db.select().from(releases).where(eq(releases.id, id));
+    return result;
+  }
+
+  async getReleasesByWallet(walletAddress: string): Promise<Release[]> {
+    return db
+      .select()
+      .from(releases)
+      .where(eq(releases.walletAddress, walletAddress))
+      .orderBy(desc(releases.createdAt));
+  }
+
+  async getDeploymentsByRelease(releaseId: number): Promise<Deployment[]> {
+    return db
+      .select()
+      .from(deployments)
+      .where(eq(deployments.releaseId, releaseId))
+      .orderBy(deployments.deployedAt);
+  }
+
   // Gas History
   async saveGasHistory(gasData: InsertGasHistory): Promise<GasHistory> {
     const [result] = await db.insert(gasHistory).values(gasData).returning();
@@ -296,6 +475,81 @@ export class DatabaseStorage implements IStorage {
       .where(and(...conditions))
       .orderBy(desc(gasHistory.timestamp));
   }
+
+  // Compilation Cache
+  async getCompilation(hash: string): Promise<CompilationCache | undefined> {
+    const [result] = await db.select().from(compilationCache).where(eq(compilationCache.hash, hash));
+    return result;
+  }
+
+  async saveCompilation(entry: InsertCompilationCache): Promise<void> {
+    // Identical inputs produce identical output, so a concurrent insert of the same hash is harmless
+    await db.insert(compilationCache).values(entry).onConflictDoNothing({ target: compilationCache.hash });
+  }
+
+  async recordCompilationHit(hash: string): Promise<void> {
+    await db
+      .update(compilationCache)
+      .set({
+        hitCount: sql`${compilationCache.hitCount} + 1`,
+        lastUsedAt: new Date(),
+      })
+      .where(eq(compilationCache.hash, hash));
+  }
+
+  async canAccessCompilation(hash: string, walletAddress: string): Promise<boolean> {
+    // The wallet deployed it (or saved it as a version), or shares a workspace with that deployment
+    const wallet = walletAddress.toLowerCase();
+    const result = await db.execute<{ allowed: boolean }>(sql`
+      SELECT EXISTS (
+        SELECT 1
+        FROM deployments d
+        LEFT JOIN contract_versions cv ON cv.deployment_id = d.id
+        WHERE (d.compilation_hash = ${hash} OR cv.compilation_hash = ${hash})
+          AND (
+            LOWER(d.wallet_address) = ${wallet}
+            OR EXISTS (
+              SELECT 1
+              FROM workspaces w
+              WHERE w.deployments @> jsonb_build_array(d.id)
+                AND EXISTS (
+                  SELECT 1 FROM jsonb_array_elements(w.members) m WHERE LOWER(m->>'address') = ${wallet}
+                )
+            )
+          )
+      ) AS allowed
+    `);
+    return result.rows[0]?.allowed === true;
+  }
+
+  async evictCompilations(unusedSince: Date): Promise<number> {
+    // Entries deployments or versions point at are kept; verification rebuilds its input from them
+    const evicted = await db
+      .delete(compilationCache)
+      .where(
+        and(
+          lte(compilationCache.lastUsedAt, unusedSince),
+          sql`NOT EXISTS (SELECT 1 FROM deployments WHERE compilation_hash = ${compilationCache.hash})`,
+          sql`NOT EXISTS (SELECT 1 FROM contract_versions WHERE compilation_hash = ${compilationCache.hash})`
+        )
+      )
+      .returning({ id: compilationCache.id });
+    return evicted.length;
+  }
+
+  // Verification Attempts
+  async createVerificationAttempt(attempt: InsertVerificationAttempt): Promise<VerificationAttempt> {
+    const [result] = await db.insert(verificationAttempts).values(attempt).returning();
+    return result;
+  }
+
+  async getVerificationAttempts(deploymentId: number): Promise<VerificationAttempt[]> {
+    return db
+      .select()
+      .from(verificationAttempts)
+      .where(eq(verificationAttempts.deploymentId, deploymentId))
+      .orderBy(desc(verificationAttempts.createdAt), desc(verificationAttempts.id));
+  }
 }
 
 export const storage = new DatabaseStorage();
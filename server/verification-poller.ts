@@ -0,0 +1,306 @@
+import type { Deployment, VerificationProviderName } from "@shared/schema";
+import { buildVerificationPayload } from "./deployment-sources";
+import { storage } from "./storage";
+import { contractVerifier, type ProxyDetection } from "./verifier";
+import type { VerificationStatus, VerificationSubmission } from "./verification-provider";
+
+// How often due verifications are looked at (30 seconds)
+const POLL_INTERVAL = 30 * 1000;
+
+// Delay before the next attempt doubles from 15 seconds up to 15 minutes
+const BASE_RETRY_DELAY = 15 * 1000;
+const MAX_RETRY_DELAY = 15 * 60 * 1000;
+
+// Submissions and status checks per verification before it is marked failed
+const MAX_ATTEMPTS = 12;
+
+// A status check still claimed after this long died with its process (2 minutes)
+const CHECK_CLAIM_TIMEOUT = 2 * 60 * 1000;
+
+export type VerificationOutcome = "pending" | "verified" | "retry" | "failed";
+
+/**
+ * Drives pending verifications to completion in the background: polls the provider
+ * with exponential backoff, resubmits when the explorer hadn't indexed the contract
+ * yet, links verified proxies to their implementations, and records every attempt
+ * in verification_attempts.
+ */
+export class VerificationPoller {
+  private intervalId: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  start(): void {
+    if (this.intervalId) {
+      console.warn('Verification poller is already running');
+      return;
+    }
+
+    // Pick up verifications left pending by a previous run straight away
+    this.poll();
+    this.intervalId = setInterval(() => this.poll(), POLL_INTERVAL);
+
+    console.log(`Verification poller started. Checking pending verifications every ${POLL_INTERVAL / 1000} seconds`);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      console.log('Verification poller stopped');
+    }
+  }
+
+  /**
+   * Submit a deployment for verification, starting a new round of attempts
+   */
+  submit(
+    deployment: Deployment,
+    requested?: VerificationProviderName
+  ): Promise<VerificationSubmission & { provider?: VerificationProviderName; verificationUrl?: string; outcome: VerificationOutcome }> {
+    return this.attemptSubmission(deployment, 1, requested);
+  }
+
+  /**
+   * Queue a deployment for the next poll to submit, for when there are more submissions
+   * than one request should wait for
+   */
+  async queue(deployment: Deployment, requested?: VerificationProviderName): Promise<void> {
+    await storage.updateDeploymentVerificationStatus(deployment.id, 'pending', null, requested ?? null);
+    await storage.scheduleVerificationCheck(deployment.id, 0, null);
+  }
+
+  /**
+   * Record the implementation behind an EIP-1967 proxy and submit it for verification
+   * too, so the proxy can be linked to it once both are verified. Null when the
+   * deployment isn't a proxy.
+   */
+  async prepareProxy(
+    deployment: Deployment,
+    requested?: VerificationProviderName
+  ): Promise<(ProxyDetection & { implementationDeploymentId: number | null }) | null> {
+    let proxy: ProxyDetection | null;
+    try {
+      proxy = await contractVerifier.detectProxy(deployment.chainId, deployment.contractAddress);
+    } catch (error) {
+      // The proxy can still be verified on its own
+      console.warn(`[Verification] Proxy detection failed for deployment ${deployment.id}:`, error);
+      return null;
+    }
+    if (!proxy) {
+      return null;
+    }
+
+    const implementation = await storage.findDeploymentByAddress(deployment.chainId, proxy.implementationAddress, deployment.walletAddress);
+    await storage.updateDeploymentProxy(deployment.id, proxy.proxyType, proxy.implementationAddress, implementation?.id ?? null);
+
+    if (implementation && !implementation.verified && implementation.verificationStatus !== 'pending') {
+      await this.submit(implementation, requested);
+    }
+    return { ...proxy, implementationDeploymentId: implementation?.id ?? null };
+  }
+
+  /**
+   * Check a submitted verification with the provider it was submitted to. A check that's
+   * already in flight, from the poller or a "Check Status" on any instance, is left to
+   * finish so the attempt is only counted and recorded once.
+   */
+  async check(deployment: Deployment): Promise<VerificationStatus & { outcome: VerificationOutcome }> {
+    const claimed = await storage.claimVerificationCheck(deployment.id, new Date(Date.now() - CHECK_CLAIM_TIMEOUT));
+    if (!claimed) {
+      return { success: false, status: 'Pending - status check already in progress', outcome: 'pending' };
+    }
+
+    try {
+      return await this.checkClaimed(claimed);
+    } finally {
+      await storage.releaseVerificationCheck(deployment.id);
+    }
+  }
+
+  private async checkClaimed(deployment: Deployment): Promise<VerificationStatus & { outcome: VerificationOutcome }> {
+    const attempt = deployment.verificationAttemptCount + 1;
+    const provider = (deployment.verificationProvider ?? undefined) as VerificationProviderName | undefined;
+    const result = await contractVerifier.checkVerificationStatus(deployment.verificationGuid!, deployment.chainId, provider);
+
+    let outcome: VerificationOutcome;
+    let message = result.status;
+    if (result.success) {
+      outcome = 'verified';
+      await storage.updateDeploymentVerificationStatus(deployment.id, 'verified');
+    } else if (attempt >= MAX_ATTEMPTS) {
+      outcome = 'failed';
+      message = `Gave up after ${attempt} attempts: ${result.status}`;
+      await storage.updateDeploymentVerificationStatus(deployment.id, 'failed');
+    } else if (result.retryable) {
+      // Submitted before the explorer indexed the contract; the next attempt resubmits
+      outcome = 'retry';
+      await storage.updateDeploymentVerificationStatus(deployment.id, 'pending', null);
+    } else if (/pending/i.test(result.status) || result.response === undefined) {
+      // No response means the request itself failed, which is worth another try
+      outcome = 'pending';
+    } else {
+      outcome = 'failed';
+      await storage.updateDeploymentVerificationStatus(deployment.id, 'failed');
+    }
+
+    await this.recordAttempt(deployment, attempt, {
+      action: 'check',
+      provider: deployment.verificationProvider,
+      guid: deployment.verificationGuid,
+      outcome,
+      message,
+      response: result.response,
+    });
+    return { ...result, status: message, outcome };
+  }
+
+  private async attemptSubmission(deployment: Deployment, attempt: number, requested?: VerificationProviderName) {
+    const payload = await buildVerificationPayload(deployment);
+    const result = await contractVerifier.verifyContract(payload, requested);
+
+    let outcome: VerificationOutcome;
+    if (result.success && result.guid) {
+      outcome = 'pending';
+      await storage.updateDeploymentVerificationStatus(deployment.id, 'pending', result.guid, result.provider);
+    } else if (result.retryable && attempt < MAX_ATTEMPTS) {
+      // Keep the provider so the resubmission goes to the same place
+      outcome = 'retry';
+      await storage.updateDeploymentVerificationStatus(deployment.id, 'pending', null, result.provider);
+    } else {
+      outcome = 'failed';
+      await storage.updateDeploymentVerificationStatus(deployment.id, 'failed');
+    }
+
+    await this.recordAttempt(deployment, attempt, {
+      action: 'submit',
+      provider: result.provider ?? null,
+      guid: result.guid ?? null,
+      outcome,
+      message: result.message,
+      response: result.response,
+    });
+    return { ...result, outcome };
+  }
+
+  // Submit the proxy link once both contracts are verified, then follow it until it's done
+  private async advanceProxyLink(proxy: Deployment): Promise<void> {
+    const provider = (proxy.verificationProvider ?? undefined) as VerificationProviderName | undefined;
+    const attempt = proxy.verificationAttemptCount;
+
+    if (proxy.proxyLinkStatus === 'pending' && proxy.proxyLinkGuid) {
+      const result = await contractVerifier.checkProxyLinkStatus(proxy.proxyLinkGuid, proxy.chainId, provider);
+      const stillPending = !result.success && (/pending/i.test(result.status) || result.response === undefined);
+      if (!stillPending) {
+        await storage.updateDeploymentProxyLink(proxy.id, result.success ? 'linked' : 'failed');
+      }
+      await storage.createVerificationAttempt({
+        deploymentId: proxy.id,
+        attempt,
+        action: 'link-check',
+        provider: proxy.verificationProvider,
+        guid: proxy.proxyLinkGuid,
+        outcome: result.success ? 'verified' : stillPending ? 'pending' : 'failed',
+        message: result.status,
+        response: result.response ?? null,
+      });
+      return;
+    }
+
+    // Explorers only link a proxy to an implementation whose source they have
+    const implementation = proxy.implementationDeploymentId
+      ? await storage.getDeployment(proxy.implementationDeploymentId)
+      : undefined; // Deployed elsewhere; assume its source is verified already
+    if (proxy.verificationStatus === 'pending' || implementation?.verificationStatus === 'pending') {
+      return;
+    }
+    if (!proxy.verified || (implementation && !implementation.verified)) {
+      await storage.updateDeploymentProxyLink(proxy.id, 'failed');
+      return;
+    }
+
+    const result = await contractVerifier.linkProxy(proxy.chainId, proxy.contractAddress, proxy.implementationAddress!, provider);
+    if (!result) {
+      // The provider detects proxies by itself
+      await storage.updateDeploymentProxyLink(proxy.id, null);
+      return;
+    }
+
+    const submitted = result.success && result.guid;
+    await storage.updateDeploymentProxyLink(proxy.id, submitted ? 'pending' : 'failed', result.guid);
+    await storage.createVerificationAttempt({
+      deploymentId: proxy.id,
+      attempt,
+      action: 'link',
+      provider: result.provider ?? null,
+      guid: result.guid ?? null,
+      outcome: submitted ? 'pending' : 'failed',
+      message: result.message,
+      response: result.response ?? null,
+    });
+  }
+
+  // Log the attempt and schedule the next one while the verification is still pending
+  private async recordAttempt(
+    deployment: Deployment,
+    attempt: number,
+    details: { action: 'submit' | 'check'; provider: string | null; guid: string | null; outcome: VerificationOutcome; message: string; response: unknown }
+  ): Promise<void> {
+    await storage.createVerificationAttempt({
+      deploymentId: deployment.id,
+      attempt,
+      ...details,
+      response: details.response ?? null,
+    });
+
+    const stillPending = details.outcome === 'pending' || details.outcome === 'retry';
+    const delay = Math.min(BASE_RETRY_DELAY * 2 ** (attempt - 1), MAX_RETRY_DELAY);
+    await storage.scheduleVerificationCheck(deployment.id, attempt, stillPending ? new Date(Date.now() + delay) : null);
+  }
+
+  private async poll(): Promise<void> {
+    // A slow provider can make one pass outlast the interval
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const due = await storage.getDeploymentsDueForVerification(new Date());
+      // One at a time, so a backlog doesn't run into explorer rate limits
+      for (const deployment of due) {
+        try {
+          if (deployment.verificationGuid) {
+            await this.check(deployment);
+          } else {
+            const provider = (deployment.verificationProvider ?? undefined) as VerificationProviderName | undefined;
+            if (deployment.verificationAttemptCount === 0) {
+              // Queued by a bulk verify and not submitted yet; detect a proxy first, as a direct verify does
+              await this.prepareProxy(deployment, provider);
+            }
+            await this.attemptSubmission(deployment, deployment.verificationAttemptCount + 1, provider);
+          }
+        } catch (error) {
+          // Errors here aren't the provider's answer (e.g. the payload couldn't be built), so
+          // retrying on every pass would only repeat them
+          console.error(`Failed to poll verification for deployment ${deployment.id}:`, error);
+          await storage.updateDeploymentVerificationStatus(deployment.id, 'failed').catch(() => {});
+        }
+      }
+
+      for (const proxy of await storage.getProxiesAwaitingLink()) {
+        try {
+          await this.advanceProxyLink(proxy);
+        } catch (error) {
+          console.error(`Failed to link proxy deployment ${proxy.id}:`, error);
+          await storage.updateDeploymentProxyLink(proxy.id, 'failed').catch(() => {});
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load pending verifications:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+}
+
+export const verificationPoller = new VerificationPoller();
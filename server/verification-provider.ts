@@ -0,0 +1,83 @@
+import type { CompileRequest, CompilerLanguage, Network, OptimizerDetails, StandardJsonInput, VerificationProviderName } from "@shared/schema";
+
+export interface VerificationPayload {
+  contractAddress: string;
+  sourceCode: string;
+  contractName: string;
+  compilerVersion: string;
+  constructorArguments?: string;
+  chainId: number;
+  optimizationEnabled?: boolean;
+  optimizationRuns?: number;
+  evmVersion?: string;
+  viaIR?: boolean;
+  optimizerDetails?: OptimizerDetails | null;
+  metadataBytecodeHash?: CompileRequest["metadataBytecodeHash"];
+  appendCBOR?: boolean;
+  revertStrings?: CompileRequest["revertStrings"];
+  libraries?: Record<string, string> | null; // Linked library addresses keyed by "sourceName:LibraryName"
+  language?: CompilerLanguage;
+  standardJsonInput?: StandardJsonInput; // The exact input the contract was compiled from (required for Vyper)
+  sourceName?: string; // Source unit in standardJsonInput that defines the contract
+  metadata?: string; // Compiler metadata JSON of the contract, when the compile output had it
+  creationTransactionHash?: string;
+}
+
+export interface VerificationSubmission {
+  success: boolean;
+  message: string;
+  guid?: string; // Identifier to poll checkVerificationStatus with
+  retryable?: boolean; // The explorer hasn't indexed the contract yet; resubmitting later may succeed
+  response?: unknown; // Raw provider response, kept for debugging
+}
+
+export interface VerificationStatus {
+  success: boolean; // Verified (fully or partially)
+  status: string; // Contains "Pending" while the provider is still working
+  matchType?: "full" | "partial"; // Partial: same bytecode, different metadata hash
+  retryable?: boolean; // Failed only because the explorer hasn't indexed the contract yet
+  response?: unknown; // Raw provider response, kept for debugging
+}
+
+/**
+ * A service that verifies contract source code for a chain
+ */
+export interface VerificationProvider {
+  readonly name: VerificationProviderName;
+
+  /**
+   * Whether the provider can be used for a network (e.g. its API key or endpoint is configured)
+   */
+  isConfigured(network: Network): boolean;
+
+  /**
+   * Submit a contract for verification. Verification runs asynchronously; poll
+   * checkVerificationStatus with the returned guid.
+   */
+  verifyContract(payload: VerificationPayload, network: Network): Promise<VerificationSubmission>;
+
+  checkVerificationStatus(guid: string, network: Network): Promise<VerificationStatus>;
+
+  /**
+   * Point a proxy's explorer page at its implementation, for providers that don't
+   * detect proxies on their own. Poll checkProxyLinkStatus with the returned guid.
+   */
+  linkProxy?(proxyAddress: string, implementationAddress: string, network: Network): Promise<VerificationSubmission>;
+
+  checkProxyLinkStatus?(guid: string, network: Network): Promise<VerificationStatus>;
+
+  /**
+   * Page showing the contract's verified source
+   */
+  getContractUrl(network: Network, address: string): string;
+}
+
+/**
+ * Source unit in the compiler output that defines the contract, preferring one it has
+ * bytecode for when several sources declare a contract with the same name
+ */
+export function findSourceName(output: any, contractName: string): string | undefined {
+  const contracts = output?.contracts ?? {};
+  const sourceNames = Object.keys(contracts).filter((name) => contracts[name][contractName]);
+  return sourceNames.find((name) => contracts[name][contractName].evm?.bytecode?.object) ?? sourceNames[0];
+}
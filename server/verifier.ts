@@ -1,30 +1,93 @@
-import { NETWORKS, type Network } from "@shared/schema";
-import { config } from "../config";
-
-interface VerificationPayload {
-  contractAddress: string;
-  sourceCode: string;
-  contractName: string;
-  compilerVersion: string;
-  constructorArguments?: string;
-  chainId: number;
-  optimizationEnabled?: boolean;
-  optimizationRuns?: number;
-  evmVersion?: string;
+import { getAddress, JsonRpcProvider, ZeroAddress } from "ethers";
+import { NETWORKS, type Network, type ProxyType, type VerificationProviderName } from "@shared/schema";
+import { BlockscoutVerifier } from "./blockscout-verifier";
+import { EtherscanCompatibleVerifier, EtherscanVerifier } from "./etherscan-verifier";
+import { SourcifyVerifier } from "./sourcify-verifier";
+import type { VerificationPayload, VerificationProvider, VerificationStatus, VerificationSubmission } from "./verification-provider";
+
+// EIP-1967 storage slots: keccak256("eip1967.proxy.<name>") - 1
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+const ADMIN_SLOT = '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103';
+const BEACON_SLOT = '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+
+// implementation() on an UpgradeableBeacon
+const BEACON_IMPLEMENTATION_SELECTOR = '0x5c60da1b';
+
+// Submissions to one explorer are spaced at least this far apart (1 second), well inside
+// Etherscan's free-tier limit so status checks still get through during bulk verification
+const SUBMISSION_INTERVAL = 1000;
+
+/**
+ * Spaces out tasks sharing a key. Tasks with different keys run independently.
+ */
+class RateLimiter {
+  private nextSlot = new Map<string, number>();
+
+  constructor(private readonly interval: number) {}
+
+  async schedule<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(key) ?? 0);
+    this.nextSlot.set(key, slot + this.interval);
+    if (slot > now) {
+      await new Promise((resolve) => setTimeout(resolve, slot - now));
+    }
+    return task();
+  }
+}
+
+export interface ProxyDetection {
+  proxyType: ProxyType;
+  implementationAddress: string;
+}
+
+// Address stored right-aligned in a 32-byte word, or null when the word is empty
+function wordToAddress(word: string): string | null {
+  const address = getAddress(`0x${word.slice(-40)}`);
+  return address === ZeroAddress ? null : address;
 }
 
+/**
+ * Routes verification requests to the provider chosen for each network
+ */
 export class ContractVerifier {
-  private readonly ETHERSCAN_V2_BASE_URL = 'https://api.etherscan.io/v2/api';
+  private readonly providers: Record<VerificationProviderName, VerificationProvider> = {
+    etherscan: new EtherscanVerifier(),
+    'etherscan-compatible': new EtherscanCompatibleVerifier(),
+    blockscout: new BlockscoutVerifier(),
+    sourcify: new SourcifyVerifier(),
+  };
+  private readonly submissions = new RateLimiter(SUBMISSION_INTERVAL);
+
+  getProvider(name: VerificationProviderName): VerificationProvider {
+    return this.providers[name];
+  }
+
+  /**
+   * Provider for a network: an explicit choice wins, then the network's own
+   * setting, then Etherscan, falling back to Sourcify when no Etherscan key is set
+   */
+  resolveProvider(network: Network, requested?: VerificationProviderName): VerificationProvider {
+    if (requested) {
+      return this.providers[requested];
+    }
+    if (network.verificationProvider) {
+      return this.providers[network.verificationProvider];
+    }
+    return this.providers.etherscan.isConfigured(network) ? this.providers.etherscan : this.providers.sourcify;
+  }
 
-  private getApiKey(): string | null {
-    return config.ETHERSCAN_API_KEY;
+  // Etherscan V2 and Sourcify serve every chain from one API; other explorers run per network
+  private explorerKey(provider: VerificationProvider, network: Network): string {
+    return provider.name === 'etherscan' || provider.name === 'sourcify'
+      ? provider.name
+      : `${provider.name}:${network.chainId}`;
   }
 
-  async verifyContract(payload: VerificationPayload): Promise<{
-    success: boolean;
-    message: string;
-    guid?: string;
-  }> {
+  async verifyContract(
+    payload: VerificationPayload,
+    requested?: VerificationProviderName
+  ): Promise<VerificationSubmission & { provider?: VerificationProviderName; verificationUrl?: string }> {
     const network = NETWORKS.find(n => n.chainId === payload.chainId);
     if (!network) {
       return {
@@ -33,147 +96,111 @@ export class ContractVerifier {
       };
     }
 
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
+    const provider = this.resolveProvider(network, requested);
+    const result = await this.submissions.schedule(
+      this.explorerKey(provider, network),
+      () => provider.verifyContract(payload, network)
+    );
+    return {
+      ...result,
+      provider: provider.name,
+      verificationUrl: provider.getContractUrl(network, payload.contractAddress),
+    };
+  }
+
+  async checkVerificationStatus(
+    guid: string,
+    chainId: number,
+    providerName: VerificationProviderName = 'etherscan'
+  ): Promise<VerificationStatus> {
+    const network = NETWORKS.find(n => n.chainId === chainId);
+    if (!network) {
       return {
         success: false,
-        message: 'ETHERSCAN_API_KEY not configured. Please add it to environment variables.',
+        status: 'Network not found',
       };
     }
 
+    return this.providers[providerName].checkVerificationStatus(guid, network);
+  }
+
+  /**
+   * Read the EIP-1967 slots of a contract. Null when it isn't a proxy.
+   */
+  async detectProxy(chainId: number, address: string): Promise<ProxyDetection | null> {
+    const network = NETWORKS.find(n => n.chainId === chainId);
+    if (!network) {
+      throw new Error(`Network not found for chain ID ${chainId}`);
+    }
+
+    const rpc = new JsonRpcProvider(network.rpcUrl, chainId);
     try {
-      // Compiler version should already include 'v' prefix (e.g., "v0.8.30+commit.6182c971")
-      // If it doesn't have the prefix, add it
-      const compilerVersion = payload.compilerVersion.startsWith('v') 
-        ? payload.compilerVersion 
-        : `v${payload.compilerVersion}`;
-
-      // Use provided optimization settings or defaults
-      const optimizationEnabled = payload.optimizationEnabled ?? true;
-      const optimizationRuns = payload.optimizationRuns ?? 200;
-      const evmVersion = payload.evmVersion ?? 'paris';
-
-      const params = new URLSearchParams({
-        chainid: payload.chainId.toString(),
-        module: 'contract',
-        action: 'verifysourcecode',
-        contractaddress: payload.contractAddress,
-        sourceCode: payload.sourceCode,
-        codeformat: 'solidity-single-file',
-        contractname: payload.contractName,
-        compilerversion: compilerVersion,
-        optimizationUsed: optimizationEnabled ? '1' : '0',
-        runs: optimizationRuns.toString(),
-        evmversion: evmVersion,
-        apikey: apiKey,
-      });
-
-      if (payload.constructorArguments) {
-        params.append('constructorArguments', payload.constructorArguments);
-      }
-      
-      // Log request for debugging
-      console.log('[Etherscan V2 API] Verification request:', {
-        chainId: payload.chainId,
-        contractAddress: payload.contractAddress,
-        contractName: payload.contractName,
-        compilerVersion: compilerVersion,
-        optimizationEnabled,
-        optimizationRuns,
-        evmVersion,
-        hasConstructorArgs: !!payload.constructorArguments,
-      });
-
-      // Etherscan V2 API requires chainid in both URL and POST body
-      const url = `${this.ETHERSCAN_V2_BASE_URL}?chainid=${payload.chainId}`;
-      
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: params.toString(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error: ${response.status}`);
+      const [implementation, admin, beacon] = await Promise.all(
+        [IMPLEMENTATION_SLOT, ADMIN_SLOT, BEACON_SLOT].map((slot) => rpc.getStorage(address, slot))
+      );
+
+      const implementationAddress = wordToAddress(implementation);
+      if (implementationAddress) {
+        return { proxyType: wordToAddress(admin) ? 'transparent' : 'uups', implementationAddress };
       }
 
-      const data = await response.json();
-      
-      // Log full response for debugging
-      console.log('[Etherscan V2 API] Verification response:', JSON.stringify(data, null, 2));
-
-      if (data.status === '1') {
-        return {
-          success: true,
-          message: 'Contract verification submitted successfully',
-          guid: data.result,
-        };
-      } else {
-        return {
-          success: false,
-          message: data.result || 'Verification failed',
-        };
+      const beaconAddress = wordToAddress(beacon);
+      if (beaconAddress) {
+        const result = await rpc.call({ to: beaconAddress, data: BEACON_IMPLEMENTATION_SELECTOR });
+        const beaconImplementation = result.length >= 66 ? wordToAddress(result.slice(0, 66)) : null;
+        return beaconImplementation ? { proxyType: 'beacon', implementationAddress: beaconImplementation } : null;
       }
-    } catch (error) {
-      console.error('Verification error:', error);
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : 'Unknown error occurred',
-      };
+
+      return null;
+    } finally {
+      rpc.destroy();
     }
   }
 
-  async checkVerificationStatus(guid: string, chainId: number): Promise<{
-    success: boolean;
-    status: string;
-  }> {
+  /**
+   * Submit a proxy link. Null when the provider has nothing to link because it
+   * detects proxies by itself.
+   */
+  async linkProxy(
+    chainId: number,
+    proxyAddress: string,
+    implementationAddress: string,
+    requested?: VerificationProviderName
+  ): Promise<(VerificationSubmission & { provider?: VerificationProviderName }) | null> {
     const network = NETWORKS.find(n => n.chainId === chainId);
     if (!network) {
       return {
         success: false,
-        status: 'Network not found',
+        message: `Network not found for chain ID ${chainId}`,
       };
     }
 
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      return {
-        success: false,
-        status: 'API key not configured',
-      };
+    const provider = this.resolveProvider(network, requested);
+    if (!provider.linkProxy) {
+      return null;
     }
+    const result = await this.submissions.schedule(
+      this.explorerKey(provider, network),
+      () => provider.linkProxy!(proxyAddress, implementationAddress, network)
+    );
+    return { ...result, provider: provider.name };
+  }
 
-    try {
-      const params = new URLSearchParams({
-        module: 'contract',
-        action: 'checkverifystatus',
-        guid,
-        apikey: apiKey,
-      });
-
-      // For status checks, chainid must be in URL query string (not in params to avoid duplication)
-      const url = `${this.ETHERSCAN_V2_BASE_URL}?chainid=${chainId}&${params.toString()}`;
-      
-      console.log('[Etherscan V2 API] Status check request:', { chainId, guid });
-      
-      const response = await fetch(url);
-      const data = await response.json();
-      
-      console.log('[Etherscan V2 API] Status check response:', JSON.stringify(data, null, 2));
-
-      return {
-        success: data.status === '1',
-        status: data.result || 'Unknown status',
-      };
-    } catch (error) {
-      console.error('Status check error:', error);
+  async checkProxyLinkStatus(
+    guid: string,
+    chainId: number,
+    providerName: VerificationProviderName = 'etherscan'
+  ): Promise<VerificationStatus> {
+    const network = NETWORKS.find(n => n.chainId === chainId);
+    const provider = this.providers[providerName];
+    if (!network || !provider.checkProxyLinkStatus) {
       return {
         success: false,
-        status: 'Failed to check status',
+        status: network ? `${providerName} does not link proxies` : 'Network not found',
       };
     }
+
+    return provider.checkProxyLinkStatus(guid, network);
   }
 }
 
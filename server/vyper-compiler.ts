@@ -0,0 +1,83 @@
+import { spawn } from "child_process";
+import { config } from "../config";
+import { compilePool, type CompileTaskOptions } from "./compile-pool.js";
+
+// `vyper --version` output, looked up once per process
+let versionPromise: Promise<string> | null = null;
+
+/**
+ * Run the Vyper executable, feeding `stdin` and resolving with stdout.
+ * Honours the compile timeout and the task's abort signal.
+ */
+function runVyper(args: string[], stdin: string | null, options: CompileTaskOptions = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new Error("Compilation cancelled"));
+      return;
+    }
+
+    const child = spawn(config.VYPER_PATH, args, { stdio: ["pipe", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    let failure: Error | null = null;
+
+    const stop = (error: Error) => {
+      failure = error;
+      child.kill();
+    };
+    const timeout = setTimeout(
+      () => stop(new Error(`Compilation timed out after ${Math.round(config.COMPILE_TIMEOUT_MS / 1000)}s`)),
+      config.COMPILE_TIMEOUT_MS
+    );
+    const onAbort = () => stop(new Error("Compilation cancelled"));
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    child.stdout.on("data", (chunk) => (stdout += chunk));
+    child.stderr.on("data", (chunk) => (stderr += chunk));
+
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      failure = error.code === "ENOENT"
+        ? new Error(`Vyper compiler not found at "${config.VYPER_PATH}". Install it with "pip install vyper" or set VYPER_PATH.`)
+        : error;
+    });
+
+    child.on("close", (code) => {
+      clearTimeout(timeout);
+      options.signal?.removeEventListener("abort", onAbort);
+      if (failure) {
+        reject(failure);
+      } else if (code !== 0) {
+        reject(new Error(stderr.trim() || `Vyper exited with code ${code}`));
+      } else {
+        resolve(stdout);
+      }
+    });
+
+    // Writes fail with EPIPE when the executable is missing; the error handler above reports that
+    child.stdin.on("error", () => {});
+    child.stdin.end(stdin ?? undefined);
+  });
+}
+
+/**
+ * Installed Vyper version, e.g. "0.4.0+commit.e9db8d9f"
+ */
+export function getVyperVersion(): Promise<string> {
+  if (!versionPromise) {
+    versionPromise = runVyper(["--version"], null).then((output) => output.trim());
+    // Don't remember failures, the binary may be installed later
+    versionPromise.catch(() => {
+      versionPromise = null;
+    });
+  }
+  return versionPromise;
+}
+
+/**
+ * Compile a standard JSON input. Resolves with Vyper's raw JSON output, which
+ * reports compile errors in `errors` like solc does. Runs through the compile
+ * pool so Vyper processes count against the same limits as solc workers.
+ */
+export function compileVyperStandardJson(input: string, options: CompileTaskOptions = {}): Promise<string> {
+  return compilePool.run(() => runVyper(["--standard-json"], input, options), options);
+}
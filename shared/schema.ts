@@ -4,13 +4,38 @@ import { createInsertSchema } from "drizzle-zod";
 import { relations } from "drizzle-orm";
 
 // Network configuration schema
+// Services that can verify contract source code. "etherscan-compatible" is any explorer
+// speaking Etherscan's API at the network's blockExplorerApiUrl.
+export const VERIFICATION_PROVIDERS = ["etherscan", "etherscan-compatible", "blockscout", "sourcify"] as const;
+
+export type VerificationProviderName = typeof VERIFICATION_PROVIDERS[number];
+
+// EIP-1967 proxy flavours: "transparent" proxies set the admin slot, "beacon" proxies the beacon slot
+export const PROXY_TYPES = ["uups", "transparent", "beacon"] as const;
+
+export type ProxyType = typeof PROXY_TYPES[number];
+
+// Outcome of comparing a deployment's recompiled runtime bytecode with the code on chain.
+// "metadata": identical apart from the CBOR metadata (e.g. different comments or file names).
+export const BYTECODE_MATCH_RESULTS = ["exact", "metadata", "mismatch"] as const;
+
+export type BytecodeMatchResult = typeof BYTECODE_MATCH_RESULTS[number];
+
+// Lifecycle of a deployment transaction, tracked on the server from the moment it's sent.
+// "mined": included in a block that isn't buried deep enough yet to rule out a reorg.
+export const DEPLOYMENT_STATUSES = ["pending", "mined", "confirmed", "failed", "dropped"] as const;
+
+export type DeploymentStatus = typeof DEPLOYMENT_STATUSES[number];
+
 export const networkSchema = z.object({
   id: z.string(),
   name: z.string(),
   chainId: z.number(),
   rpcUrl: z.string(),
   blockExplorer: z.string(),
-  blockExplorerApiUrl: z.string().optional(),
+  blockExplorerApiUrl: z.string().optional(), // Etherscan-compatible API endpoint, or the Blockscout instance URL
+  contractSizeLimits: z.object({ runtime: z.number(), initcode: z.number() }).optional(), // Overrides EIP-170/EIP-3860
+  verificationProvider: z.enum(VERIFICATION_PROVIDERS).optional(), // Default: Etherscan, or Sourcify without an API key
   nativeCurrency: z.object({
     name: z.string(),
     symbol: z.string(),
@@ -24,41 +49,244 @@ export const networkSchema = z.object({
 
 export type Network = z.infer<typeof networkSchema>;
 
+// EIP-170 runtime and EIP-3860 initcode size limits in bytes, for chains that don't override them
+export const DEFAULT_CONTRACT_SIZE_LIMITS = {
+  runtime: 24576,
+  initcode: 49152,
+};
+
+// EVM targets accepted by solc's settings.evmVersion, oldest first
+export const EVM_VERSIONS = [
+  "homestead",
+  "tangerineWhistle",
+  "spuriousDragon",
+  "byzantium",
+  "constantinople",
+  "petersburg",
+  "istanbul",
+  "berlin",
+  "london",
+  "paris",
+  "shanghai",
+  "cancun",
+  "prague",
+  "osaka",
+] as const;
+
+export type EvmVersion = typeof EVM_VERSIONS[number];
+
+export const COMPILER_LANGUAGES = ["Solidity", "Vyper"] as const;
+
+export type CompilerLanguage = typeof COMPILER_LANGUAGES[number];
+
+// Optimizer step toggles (settings.optimizer.details); unset steps keep solc's defaults
+export const optimizerDetailsSchema = z.object({
+  peephole: z.boolean().optional(),
+  inliner: z.boolean().optional(),
+  jumpdestRemover: z.boolean().optional(),
+  orderLiterals: z.boolean().optional(),
+  deduplicate: z.boolean().optional(),
+  cse: z.boolean().optional(),
+  constantOptimizer: z.boolean().optional(),
+  yul: z.boolean().optional(),
+});
+
+export type OptimizerDetails = z.infer<typeof optimizerDetailsSchema>;
+
+// OpenZeppelin releases offered in the UI, newest first (4.x predates the Ownable(initialOwner) constructor)
+export const OPENZEPPELIN_VERSIONS = [
+  "5.4.0",
+  "5.3.0",
+  "5.2.0",
+  "5.1.0",
+  "5.0.2",
+  "5.0.0",
+  "4.9.6",
+  "4.9.3",
+  "4.8.3",
+  "4.7.3",
+] as const;
+
 // Compilation request/response schemas
 export const compileRequestSchema = z.object({
   sourceCode: z.string(),
   fileName: z.string().default("Contract.sol"),
+  language: z.enum(COMPILER_LANGUAGES).optional(), // Default: from the file extension (.vy compiles as Vyper)
   solcVersion: z.string().default("0.8.20"),
   optimizationEnabled: z.boolean().default(true),
   optimizationRuns: z.number().int().min(1).max(10000).default(200),
-  evmVersion: z.enum(["paris", "shanghai", "cancun", "london", "berlin", "istanbul"]).default("paris"),
+  evmVersion: z.enum(EVM_VERSIONS).default("paris"),
+  viaIR: z.boolean().optional(), // Compile through the Yul IR pipeline (fixes "stack too deep")
+  optimizerDetails: optimizerDetailsSchema.optional(),
+  metadataBytecodeHash: z.enum(["ipfs", "bzzr1", "none"]).optional(), // Default: ipfs
+  appendCBOR: z.boolean().optional(), // Default: true
+  revertStrings: z.enum(["default", "strip", "debug", "verboseDebug"]).optional(),
+  // Pins @openzeppelin/contracts and contracts-upgradeable, overriding the workspace's packages
+  openzeppelinVersion: z.string().regex(/^\d+\.\d+\.\d+$/, "OpenZeppelin version must be an exact release").optional(),
+  // Also return storage layout, gas estimates, deployed bytecode, method identifiers, NatSpec and ASTs
+  extendedArtifacts: z.boolean().optional(),
 });
 
 export type CompileRequest = z.infer<typeof compileRequestSchema>;
 
+// Compiler settings beyond optimization runs and EVM version
+export type AdvancedCompilerSettings = Pick<
+  CompileRequest,
+  "viaIR" | "optimizerDetails" | "metadataBytecodeHash" | "appendCBOR" | "revertStrings"
+>;
+
+// Compile a file from a workspace, resolving its imports against the workspace file tree
+export const workspaceCompileRequestSchema = compileRequestSchema.omit({
+  sourceCode: true,
+  fileName: true,
+}).extend({
+  entryPath: z.string().min(1),
+  sourceCode: z.string().optional(), // Unsaved editor content for the entry file
+});
+
+export type WorkspaceCompileRequest = z.infer<typeof workspaceCompileRequestSchema>;
+
+// Compiler standard JSON input, as sent to solc/vyper (sources must be inlined, not URLs)
+export const standardJsonInputSchema = z.object({
+  language: z.enum(COMPILER_LANGUAGES),
+  sources: z.record(z.object({ content: z.string() })).refine(
+    (sources) => Object.keys(sources).length > 0,
+    "Standard JSON input has no sources"
+  ),
+  settings: z.record(z.any()).default({}),
+});
+
+export type StandardJsonInput = z.infer<typeof standardJsonInputSchema>;
+
+// Import a standard JSON input into a workspace as files plus compiler settings
+export const importStandardJsonRequestSchema = z.object({
+  input: standardJsonInputSchema,
+  overwrite: z.boolean().default(false), // Replace workspace files whose content differs
+});
+
+export type ImportStandardJsonRequest = z.infer<typeof importStandardJsonRequestSchema>;
+
+// Compile options recovered from a standard JSON input's settings
+export type ImportedCompilerSettings = Partial<Pick<
+  CompileRequest,
+  "language" | "optimizationEnabled" | "optimizationRuns" | "evmVersion" | keyof AdvancedCompilerSettings
+>> & {
+  remappings?: string[];
+};
+
+export const importErrorSchema = z.object({
+  sourceFile: z.string(),
+  importPath: z.string(),
+  resolvedPath: z.string(),
+  message: z.string(),
+});
+
+export type ImportError = z.infer<typeof importErrorSchema>;
+
+// Placeholder positions for external libraries: sourceName -> libraryName -> byte offsets
+export const linkReferencesSchema = z.record(
+  z.record(z.array(z.object({ start: z.number(), length: z.number() })))
+);
+
+export type LinkReferences = z.infer<typeof linkReferencesSchema>;
+
+// Compiler outputs only requested in extended artifacts mode; shapes follow solc's standard JSON output
+export const contractArtifactsSchema = z.object({
+  storageLayout: z.object({
+    storage: z.array(z.object({
+      astId: z.number(),
+      contract: z.string(),
+      label: z.string(),
+      offset: z.number(),
+      slot: z.string(),
+      type: z.string(),
+    })),
+    types: z.record(z.any()).nullable(),
+  }).optional(),
+  gasEstimates: z.object({
+    creation: z.record(z.string()).optional(),
+    external: z.record(z.string()).optional(),
+    internal: z.record(z.string()).optional(),
+  }).optional(),
+  deployedBytecode: z.string().optional(),
+  immutableReferences: z.record(z.array(z.object({ start: z.number(), length: z.number() }))).optional(), // AST id -> byte offsets
+  methodIdentifiers: z.record(z.string()).optional(), // Signature -> selector
+  devdoc: z.any().optional(),
+  userdoc: z.any().optional(),
+});
+
+export type ContractArtifacts = z.infer<typeof contractArtifactsSchema>;
+
 export const compiledContractSchema = z.object({
   abi: z.array(z.any()),
   bytecode: z.string(),
   contractName: z.string(),
+  sourceName: z.string(), // Source unit the contract is defined in (e.g. "contracts/Vault.sol")
+  kind: z.enum(["contract", "interface", "library"]),
+  isAbstract: z.boolean(),
+  constructorUsesSender: z.boolean().optional(), // Deploying reads msg.sender (e.g. Ownable(msg.sender)), so a CREATE2 factory would become the owner
   constructorInputs: z.array(z.object({
     name: z.string(),
     type: z.string(),
     internalType: z.string().optional(),
   })),
   flattenedSource: z.string().optional(), // Flattened source code for verification
+  linkReferences: linkReferencesSchema.optional(), // Present when the bytecode needs libraries linked before deployment
+  artifacts: contractArtifactsSchema.optional(), // Extended artifacts mode only
+  sizes: z.object({
+    runtime: z.number(), // Deployed bytecode, checked against EIP-170
+    initcode: z.number(), // Creation bytecode without constructor arguments, checked against EIP-3860
+  }).optional(),
 });
 
 export type CompiledContract = z.infer<typeof compiledContractSchema>;
 
+// Compiler diagnostic (error, warning or info) with a 1-based source range
+export const compilerDiagnosticSchema = z.object({
+  severity: z.enum(["error", "warning", "info"]),
+  type: z.string(), // solc error type, e.g. "TypeError", "Warning"
+  errorCode: z.string().optional(),
+  message: z.string(),
+  formattedMessage: z.string().optional(),
+  sourceFile: z.string().optional(),
+  startLine: z.number().optional(),
+  startColumn: z.number().optional(),
+  endLine: z.number().optional(),
+  endColumn: z.number().optional(),
+});
+
+export type CompilerDiagnostic = z.infer<typeof compilerDiagnosticSchema>;
+
 export const compileResponseSchema = z.object({
   success: z.boolean(),
-  contract: compiledContractSchema.optional(),
+  contract: compiledContractSchema.optional(), // Default deployment target
+  contracts: z.array(compiledContractSchema).optional(), // Every contract in every compiled source
   error: z.string().optional(),
-  compilerVersion: z.string().optional(), // Full version with commit hash (e.g., "v0.8.30+commit.6182c971")
+  importErrors: z.array(importErrorSchema).optional(), // Imports that could not be resolved
+  diagnostics: z.array(compilerDiagnosticSchema).optional(), // Errors, warnings and info from the compiler
+  compilerVersion: z.string().optional(), // Full version with commit hash (e.g., "v0.8.30+commit.6182c971"), or "vyper:0.4.0"
+  compilationHash: z.string().optional(), // Content hash of the compiler version + standard JSON input
+  language: z.enum(COMPILER_LANGUAGES).optional(),
+  cached: z.boolean().optional(), // True when the output came from the compilation cache
+  openzeppelinVersion: z.string().optional(), // OpenZeppelin release the imports resolved against, if any
+  asts: z.record(z.any()).optional(), // Source unit name -> AST, extended artifacts mode only
 });
 
 export type CompileResponse = z.infer<typeof compileResponseSchema>;
 
+// Asynchronous compile job, polled by the client while a worker thread compiles
+export const compileJobSchema = z.object({
+  id: z.string(),
+  status: z.enum(["queued", "running", "completed", "failed", "cancelled"]),
+  createdAt: z.string(),
+  startedAt: z.string().optional(),
+  finishedAt: z.string().optional(),
+  queuePosition: z.number().optional(), // 1-based position while queued
+  result: compileResponseSchema.optional(),
+});
+
+export type CompileJob = z.infer<typeof compileJobSchema>;
+
 // Gas estimation schemas
 export const gasEstimateRequestSchema = z.object({
   bytecode: z.string(),
@@ -117,6 +345,12 @@ export type GasPrices = z.infer<typeof gasPricesSchema>;
 export const deploymentStateSchema = z.object({
   status: z.enum(["idle", "compiling", "compiled", "deploying", "deployed", "error"]),
   compiledContract: compiledContractSchema.optional(),
+  compiledContracts: z.array(compiledContractSchema).optional(),
+  asts: z.record(z.any()).optional(),
+  language: z.enum(COMPILER_LANGUAGES).optional(),
+  compilationHash: z.string().optional(),
+  sourcePath: z.string().optional(), // Entry source the compiled contract came from
+  openzeppelinVersion: z.string().optional(),
   transactionHash: z.string().optional(),
   contractAddress: z.string().optional(),
   error: z.string().optional(),
@@ -302,22 +536,53 @@ export const deployments = pgTable("deployments", {
   contractName: varchar("contract_name", { length: 255 }).notNull(),
   contractAddress: varchar("contract_address", { length: 42 }).notNull(),
   sourceCode: text("source_code").notNull(),
+  sourcePath: varchar("source_path", { length: 500 }), // Name sourceCode was compiled under ("Contract.sol" or its workspace path); null for legacy rows
   flattenedSource: text("flattened_source"), // Flattened source for verification
   abi: jsonb("abi").notNull(),
   network: varchar("network", { length: 50 }).notNull(),
   chainId: integer("chain_id").notNull(),
+  language: varchar("language", { length: 20 }).notNull().default("Solidity"),
   txHash: varchar("tx_hash", { length: 66 }).notNull(),
   deployedAt: timestamp("deployed_at").notNull().defaultNow(),
+  status: varchar("status", { length: 20 }).notNull().default("confirmed"), // Deployment transaction lifecycle; rows saved before tracking existed were already mined
+  blockNumber: integer("block_number"),
+  blockHash: varchar("block_hash", { length: 66 }), // Compared on every check to detect reorgs
+  confirmations: integer("confirmations").notNull().default(0),
+  gasUsed: varchar("gas_used", { length: 100 }), // Stored as string (wei amounts overflow integer columns)
+  effectiveGasPrice: varchar("effective_gas_price", { length: 100 }),
+  deployerNonce: integer("deployer_nonce"),
+  create2Factory: varchar("create2_factory", { length: 42 }), // Set when deployed deterministically through a CREATE2 factory
+  create2Salt: varchar("create2_salt", { length: 66 }),
+  releaseId: integer("release_id").references(() => releases.id, { onDelete: "set null" }), // Set when deployed as part of a multi-network release
   constructorArgs: jsonb("constructor_args"),
   verified: boolean("verified").notNull().default(false),
   verificationStatus: varchar("verification_status", { length: 20 }),
   verificationGuid: varchar("verification_guid", { length: 100 }),
+  verificationProvider: varchar("verification_provider", { length: 20 }), // Service the verificationGuid belongs to; null = Etherscan
+  verificationAttemptCount: integer("verification_attempt_count").notNull().default(0), // Submissions and status checks for the current verification
+  verificationNextCheckAt: timestamp("verification_next_check_at"), // When the background poller next looks at a pending verification
+  verificationCheckStartedAt: timestamp("verification_check_started_at"), // Set while a status check is in flight, so a concurrent one skips it
+  proxyType: varchar("proxy_type", { length: 20 }), // Set when the deployment is an EIP-1967 proxy
+  implementationAddress: varchar("implementation_address", { length: 42 }), // Proxy's implementation when it was last verified
+  implementationDeploymentId: integer("implementation_deployment_id"), // References deployments.id when the implementation was deployed from here
+  proxyLinkStatus: varchar("proxy_link_status", { length: 20 }), // "waiting" for verification, "pending", "linked" or "failed"
+  proxyLinkGuid: varchar("proxy_link_guid", { length: 100 }),
+  bytecodeMatch: varchar("bytecode_match", { length: 20 }), // Local recompile-and-compare result, null until checked
+  bytecodeMatchCheckedAt: timestamp("bytecode_match_checked_at"),
   notes: text("notes"),
   solcVersion: varchar("solc_version", { length: 50 }), // Full version with commit hash (e.g., "v0.8.30+commit.6182c971")
   blockExplorerUrl: text("block_explorer_url"),
   optimizationEnabled: boolean("optimization_enabled").notNull().default(true),
   optimizationRuns: integer("optimization_runs").notNull().default(200),
   evmVersion: varchar("evm_version", { length: 20 }).notNull().default("paris"), // EVM version used during compilation
+  viaIR: boolean("via_ir").notNull().default(false),
+  optimizerDetails: jsonb("optimizer_details"), // settings.optimizer.details, null for solc defaults
+  metadataBytecodeHash: varchar("metadata_bytecode_hash", { length: 10 }).notNull().default("ipfs"),
+  appendCBOR: boolean("append_cbor").notNull().default(true),
+  revertStrings: varchar("revert_strings", { length: 20 }).notNull().default("default"),
+  libraries: jsonb("libraries"), // Linked library addresses keyed by "sourceName:LibraryName"
+  openzeppelinVersion: varchar("openzeppelin_version", { length: 20 }), // Null when the source has no OpenZeppelin imports
+  compilationHash: varchar("compilation_hash", { length: 64 }), // References compilation_cache.hash
 });
 
 export const contractTemplates = pgTable("contract_templates", {
@@ -337,6 +602,8 @@ export const workspaces = pgTable("workspaces", {
   name: varchar("name", { length: 255 }).notNull(),
   members: jsonb("members").notNull(),
   deployments: jsonb("deployments").notNull().default('[]'),
+  packages: jsonb("packages").$type<Record<string, string>>().notNull().default({}), // npm package name -> pinned version
+  remappings: jsonb("remappings").$type<string[]>().notNull().default([]),
   createdBy: varchar("created_by", { length: 42 }).notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
@@ -371,6 +638,8 @@ export const contractVersions = pgTable("contract_versions", {
   sourceCode: text("source_code").notNull(),
   solcVersion: varchar("solc_version", { length: 50 }), // Full version with commit hash (e.g., "v0.8.30+commit.6182c971")
   compilerSettings: jsonb("compiler_settings"),
+  openzeppelinVersion: varchar("openzeppelin_version", { length: 20 }),
+  compilationHash: varchar("compilation_hash", { length: 64 }), // References compilation_cache.hash
   notes: text("notes"),
   createdBy: varchar("created_by", { length: 42 }).notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -378,6 +647,19 @@ export const contractVersions = pgTable("contract_versions", {
   uniqueDeploymentVersion: unique().on(table.deploymentId, table.version),
 }));
 
+// One contract deployed to several networks in a single operation. Progress is derived from
+// the deployments pointing at the release, so a failed rollout can be resumed where it stopped.
+export const releases = pgTable("releases", {
+  id: serial("id").primaryKey(),
+  walletAddress: varchar("wallet_address", { length: 42 }).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  contractName: varchar("contract_name", { length: 255 }).notNull(),
+  networks: jsonb("networks").$type<string[]>().notNull(), // Network IDs, in deployment order
+  constructorArgs: jsonb("constructor_args").$type<Record<string, string[]>>().notNull().default({}), // Network ID -> arguments
+  create2Salt: varchar("create2_salt", { length: 66 }), // Same salt on every network for a shared address
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const gasHistory = pgTable("gas_history", {
   id: serial("id").primaryKey(),
   chainId: integer("chain_id").notNull(),
@@ -394,14 +676,65 @@ export const gasHistory = pgTable("gas_history", {
   chainIdTimestampIdx: index("chain_id_timestamp_idx").on(table.chainId, table.timestamp),
 }));
 
+// Compiler output keyed by a sha256 of the full compiler version and standard JSON input
+export const compilationCache = pgTable("compilation_cache", {
+  id: serial("id").primaryKey(),
+  hash: varchar("hash", { length: 64 }).notNull().unique(),
+  solcVersion: varchar("solc_version", { length: 50 }).notNull(), // Full version with commit hash (e.g., "v0.8.30+commit.6182c971")
+  input: jsonb("input").notNull(), // Standard JSON input
+  output: jsonb("output").notNull(), // Raw standard JSON output
+  hitCount: integer("hit_count").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastUsedAt: timestamp("last_used_at").notNull().defaultNow(),
+});
+
+// Every verification submission and status check, with the provider's raw response for debugging
+export const verificationAttempts = pgTable("verification_attempts", {
+  id: serial("id").primaryKey(),
+  deploymentId: integer("deployment_id").notNull().references(() => deployments.id, { onDelete: "cascade" }),
+  attempt: integer("attempt").notNull(), // verificationAttemptCount when the attempt was made, starting at 1
+  action: varchar("action", { length: 10 }).notNull(), // "submit", "check", or "link"/"link-check" for proxies
+  provider: varchar("provider", { length: 20 }),
+  guid: varchar("guid", { length: 100 }),
+  outcome: varchar("outcome", { length: 20 }).notNull(), // "pending", "verified", "retry" (resubmit later) or "failed"
+  message: text("message"),
+  response: jsonb("response"), // Raw provider response, null when the request itself failed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  deploymentIdIdx: index("verification_attempts_deployment_id_idx").on(table.deploymentId),
+}));
+
 // Insert schemas
 export const insertDeploymentSchema = createInsertSchema(deployments).omit({
   id: true,
   deployedAt: true,
+  status: true,
+  blockNumber: true,
+  blockHash: true,
+  confirmations: true,
+  gasUsed: true,
+  effectiveGasPrice: true,
+  deployerNonce: true,
+  verificationAttemptCount: true,
+  verificationNextCheckAt: true,
+  verificationCheckStartedAt: true,
+  proxyType: true,
+  implementationAddress: true,
+  implementationDeploymentId: true,
+  proxyLinkStatus: true,
+  proxyLinkGuid: true,
+  bytecodeMatch: true,
+  bytecodeMatchCheckedAt: true,
 });
 export type InsertDeployment = z.infer<typeof insertDeploymentSchema>;
 export type Deployment = typeof deployments.$inferSelect;
 
+// Fields the deployment watcher fills in from the transaction and its receipt
+export type DeploymentChainState = Partial<Pick<
+  Deployment,
+  "status" | "contractAddress" | "blockNumber" | "blockHash" | "confirmations" | "gasUsed" | "effectiveGasPrice" | "deployerNonce"
+>>;
+
 export const insertContractTemplateSchema = createInsertSchema(contractTemplates).omit({
   id: true,
   createdAt: true,
@@ -411,6 +744,8 @@ export type ContractTemplate = typeof contractTemplates.$inferSelect;
 
 export const insertWorkspaceSchema = createInsertSchema(workspaces).omit({
   id: true,
+  packages: true,
+  remappings: true,
   createdAt: true,
 });
 export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
@@ -424,6 +759,17 @@ export const insertWorkspaceFileSchema = createInsertSchema(workspaceFiles).omit
 export type InsertWorkspaceFile = z.infer<typeof insertWorkspaceFileSchema>;
 export type WorkspaceFile = typeof workspaceFiles.$inferSelect;
 
+// Package versions must be exact or an npm dist-tag; anything else could escape the package store
+export const updateWorkspaceDependenciesSchema = z.object({
+  packages: z.record(
+    z.string().regex(/^(@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*$/i, "Invalid package name"),
+    z.string().regex(/^[\w.+-]+$/, "Invalid package version")
+  ),
+  remappings: z.array(z.string().regex(/^([^:=]*:)?[^=]+=.*$/, "Remappings must look like prefix=target")),
+});
+
+export type UpdateWorkspaceDependencies = z.infer<typeof updateWorkspaceDependenciesSchema>;
+
 export const insertAuthSessionSchema = createInsertSchema(authSessions).omit({
   id: true,
   createdAt: true,
@@ -437,6 +783,16 @@ export const insertContractVersionSchema = createInsertSchema(contractVersions).
 export type InsertContractVersion = z.infer<typeof insertContractVersionSchema>;
 export type ContractVersion = typeof contractVersions.$inferSelect;
 
+export const insertReleaseSchema = createInsertSchema(releases, {
+  networks: z.array(z.string()),
+  constructorArgs: z.record(z.array(z.string())),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertRelease = z.infer<typeof insertReleaseSchema>;
+export type Release = typeof releases.$inferSelect;
+
 export const insertGasHistorySchema = createInsertSchema(gasHistory).omit({
   id: true,
   timestamp: true,
@@ -444,21 +800,62 @@ export const insertGasHistorySchema = createInsertSchema(gasHistory).omit({
 export type InsertGasHistory = z.infer<typeof insertGasHistorySchema>;
 export type GasHistory = typeof gasHistory.$inferSelect;
 
+export const insertCompilationCacheSchema = createInsertSchema(compilationCache).omit({
+  id: true,
+  hitCount: true,
+  createdAt: true,
+  lastUsedAt: true,
+});
+
+export type InsertCompilationCache = z.infer<typeof insertCompilationCacheSchema>;
+export type CompilationCache = typeof compilationCache.$inferSelect;
+
+export const insertVerificationAttemptSchema = createInsertSchema(verificationAttempts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertVerificationAttempt = z.infer<typeof insertVerificationAttemptSchema>;
+export type VerificationAttempt = typeof verificationAttempts.$inferSelect;
+
 // Contract version request schemas
 export const createVersionRequestSchema = z.object({
   sourceCode: z.string().min(1, "Source code is required"),
   notes: z.string().optional(),
   solcVersion: z.string().optional(),
   compilerSettings: z.any().optional(),
+  openzeppelinVersion: z.string().optional(),
+  compilationHash: z.string().optional(),
 });
 export type CreateVersionRequest = z.infer<typeof createVersionRequestSchema>;
 
+// Release schemas
+export const createReleaseRequestSchema = z.object({
+  name: z.string().min(1, "Release name is required").max(255),
+  contractName: z.string().min(1).max(255),
+  networks: z.array(z.string()).min(1, "Select at least one network")
+    .refine((ids) => ids.every((id) => NETWORKS.some((n) => n.id === id)), "Unknown network")
+    .refine((ids) => new Set(ids).size === ids.length, "Networks must be unique"),
+  constructorArgs: z.record(z.array(z.string())).default({}),
+  create2Salt: z.string().regex(/^0x[a-fA-F0-9]{64}$/, "Salt must be 32 bytes of hex").optional(),
+});
+export type CreateReleaseRequest = z.infer<typeof createReleaseRequestSchema>;
+
+export interface ReleaseWithDeployments extends Release {
+  deployments: Deployment[];
+}
+
 // Contract verification schemas
 export const verifyContractRequestSchema = z.object({
   deploymentId: z.number(),
   chainId: z.number(),
 });
 
+// Body of POST /api/deployments/:id/verify
+export const verifyDeploymentRequestSchema = z.object({
+  provider: z.enum(VERIFICATION_PROVIDERS).optional(), // Default: the network's provider
+});
+
 export type VerifyContractRequest = z.infer<typeof verifyContractRequestSchema>;
 
 export const verifyContractResponseSchema = z.object({
@@ -468,5 +865,55 @@ export const verifyContractResponseSchema = z.object({
 });
 
 export type VerifyContractResponse = z.infer<typeof verifyContractResponseSchema>;
+
+// Deployments queued for verification by one bulk request
+export const MAX_BULK_VERIFY_DEPLOYMENTS = 50;
+
+// Body of POST /api/deployments/bulk-verify: explicit deployments, or every unverified one in a workspace
+export const bulkVerifyRequestSchema = z.object({
+  deploymentIds: z.array(z.number().int().positive()).min(1).max(MAX_BULK_VERIFY_DEPLOYMENTS).optional(),
+  workspaceId: z.number().int().positive().optional(),
+  provider: z.enum(VERIFICATION_PROVIDERS).optional(),
+}).refine((data) => Boolean(data.deploymentIds) !== Boolean(data.workspaceId), {
+  message: "Specify either deploymentIds or workspaceId",
+});
+
+export type BulkVerifyRequest = z.infer<typeof bulkVerifyRequestSchema>;
+
+export interface BulkVerifyOutcome {
+  deploymentId: number;
+  contractName?: string;
+  network?: string;
+  status: "pending" | "verified" | "skipped"; // Pending once queued for the verification poller
+  message: string;
+}
+
+export interface BulkVerifyResponse {
+  queued: number[]; // Deployments the verification poller submits in the background
+  results: BulkVerifyOutcome[];
+}
+
+// Deterministic deployment proxy (github.com/Arachnid/deterministic-deployment-proxy), deployed at
+// the same address on most EVM chains. Calldata is the 32-byte salt followed by the initcode.
+export const CREATE2_FACTORY_ADDRESS = "0x4e59b44847b379578588920ca78fbf26c0b4956c";
+
+// Body of POST /api/create2/check: a precomputed CREATE2 address to look up on every network
+export const create2CheckRequestSchema = z.object({
+  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address"),
+});
+
+export type Create2CheckRequest = z.infer<typeof create2CheckRequestSchema>;
+
+export interface Create2NetworkStatus {
+  network: string;
+  chainId: number;
+  deployed: boolean | null; // Null when the network's RPC couldn't be reached
+  factoryAvailable: boolean | null;
+  error?: string;
+}
+
+export interface Create2CheckResponse {
+  networks: Create2NetworkStatus[];
+}
 export type InsertAuthSession = z.infer<typeof insertAuthSessionSchema>;
 export type AuthSession = typeof authSessions.$inferSelect;